@@ -0,0 +1,72 @@
+import { ChatEntry, MAX_CHAT_LENGTH } from './protocol';
+import { GameState, ClientPhase, isMyTurn } from './state';
+import * as network from './network';
+import { focusHiddenInput, blurHiddenInput } from './input';
+
+// Chat between everyone in a game. The waiting room and the game over screen open it as a panel,
+// during a game the latest messages show over the spectator view. On the player's own turn the
+// keys and the hidden input belong to the word, so the chat can't be opened then.
+
+// The server keeps no more than this either
+const MAX_CHAT_LOG = 50;
+
+// How long new messages stay up in the overlay during a game
+const CHAT_OVERLAY_SECONDS = 8;
+
+const CHAT_PHASES = [ClientPhase.LOBBY_WAITING, ClientPhase.SPECTATING, ClientPhase.GAME_OVER];
+
+// Nobody to chat with in practice, a daily challenge or a replay
+export function isChatAvailable(state: GameState): boolean {
+  return !state.practice && !state.daily && !state.replay && CHAT_PHASES.includes(state.phase);
+}
+
+// Keys and typed text go to the chat input instead of the screen underneath
+export function isTypingChat(state: GameState): boolean {
+  return state.chatOpen && isChatAvailable(state) && !isMyTurn(state);
+}
+
+export function openChat(state: GameState): void {
+  if (!isChatAvailable(state) || isMyTurn(state)) return;
+  state.chatOpen = true;
+  state.chatUnread = 0;
+  focusHiddenInput();
+}
+
+export function closeChat(state: GameState): void {
+  state.chatOpen = false;
+  if (!isMyTurn(state)) {
+    blurHiddenInput();
+  }
+}
+
+export function addChatChar(state: GameState, char: string): void {
+  if (state.chatInput.length < MAX_CHAT_LENGTH && !/[\u0000-\u001f\u007f]/.test(char)) {
+    state.chatInput += char;
+  }
+}
+
+export function sendChat(state: GameState): void {
+  const text = state.chatInput.trim();
+  if (text.length === 0) return;
+  network.sendChat(text);
+  state.chatInput = '';
+}
+
+export function receiveChat(state: GameState, entry: ChatEntry): void {
+  state.chatLog.push(entry);
+  if (state.chatLog.length > MAX_CHAT_LOG) {
+    state.chatLog.shift();
+  }
+  state.chatOverlayUntil = state.animTime + CHAT_OVERLAY_SECONDS;
+  if (!state.chatOpen && entry.playerId !== state.playerId) {
+    state.chatUnread++;
+  }
+}
+
+export function resetChat(state: GameState): void {
+  state.chatLog = [];
+  state.chatInput = '';
+  state.chatOpen = false;
+  state.chatUnread = 0;
+  state.chatOverlayUntil = 0;
+}
@@ -1,7 +1,24 @@
 import { GameState, ClientPhase, isMyTurn, getLocalPlayer, getReadyCount } from './state';
-import { PlayerState, MIN_PLAYERS } from './protocol';
+import {
+  PlayerState,
+  MIN_PLAYERS,
+  GameSettings,
+  TimerAcceleration,
+  DifficultyCurve,
+  BotDifficulty,
+  LeaderboardCategory,
+  LeaderboardWindow,
+  SETTINGS_LIMITS,
+  JOIN_CODE_LENGTH,
+  MAX_PASSWORD_LENGTH,
+} from './protocol';
 import * as network from './network';
+import { startPractice } from './practice';
+import { startReplay, stopReplay, seekReplay, toggleReplayPause, REPLAY_SEEK_STEP_MS } from './replay';
+import { joinInvite, copyInviteLink } from './invite';
+import { isChatAvailable, isTypingChat, openChat, closeChat, addChatChar, sendChat } from './chat';
 import { playSound } from './audio';
+import { MAX_SEED } from './random';
 
 // Reference resolution for touch calculations (must match renderer.ts)
 const REFERENCE_WIDTH = 640;
@@ -30,8 +47,8 @@ function getMenuItemAtPoint(refX: number, refY: number, scaleX: number, scaleY:
   if (!ctx) return -1;
 
   const centerX = 320; // REFERENCE_WIDTH / 2
-  const menuPositions = [200, 260]; // Must match renderer menuY values: [y(200), y(260)]
-  const menuItems = ['ALUSTA', 'LIITU'];
+  const menuPositions = [175, 230, 285, 340, 395]; // Must match renderer menuY values: [y(175), y(230), ...]
+  const menuItems = ['ALUSTA', 'LIITU', 'VÄLJAKUTSE', 'HARJUTA', 'STATISTIKA'];
   const boxPaddingX = 16; // Must match renderer: x(16)
   const boxPaddingY = 6;  // Must match renderer: y(6)
 
@@ -80,28 +97,72 @@ const BUTTON_DEFS: { [phase: string]: { [name: string]: [number, number, number,
   },
   [ClientPhase.LOBBY_CREATE]: {
     'back': [10, 10, 95, 35],
-    'create': [320 - 60, 260, 120, 40],
+    'create': [320 - 60, 275, 120, 40],
+    'private': [320 - 80, 330, 160, 40],
   },
   [ClientPhase.LOBBY_JOIN]: {
     'back': [10, 10, 95, 35],
     'refresh': [640 - 90, 10, 80, 35],
+    'code': [640 - 180, 10, 80, 35],
+  },
+  [ClientPhase.JOIN_CODE]: {
+    'back': [10, 10, 95, 35],
+    'join': [320 - 60, 260, 120, 40],
+  },
+  [ClientPhase.JOIN_PASSWORD]: {
+    'back': [10, 10, 95, 35],
+    'join': [320 - 60, 260, 120, 40],
   },
   [ClientPhase.LOBBY_WAITING]: {
     'back': [10, 10, 95, 35],
-    // ready and start buttons use dynamic positioning, handled separately
+    'invite': [10, 55, 140, 32],
+    'chat': [640 - 130, 440, 120, 32],
+    // ready, start and bot buttons are dynamic or host only, handled separately
+  },
+  [ClientPhase.SPECTATING]: {
+    'chat': [640 - 130, 440, 120, 32],
+  },
+  [ClientPhase.STATS]: {
+    'back': [10, 10, 95, 35],
+    'leaderboard': [320 - 70, 400, 140, 40],
+  },
+  [ClientPhase.LEADERBOARD]: {
+    'back': [10, 10, 95, 35],
+    'today': [320 - 165, 150, 100, 35],
+    'week': [320 - 50, 150, 100, 35],
+    'alltime': [320 + 65, 150, 100, 35],
   },
   [ClientPhase.GAME_OVER]: {
     'continue': [320 - 80, 360, 160, 45],
-    'failed': [320 - 70, 420, 140, 40],
-    // 'back' button in failed combos view is handled dynamically
+    'failed': [320 - 150, 420, 140, 40],
+    'history': [320 + 10, 420, 140, 40],
+    'report': [640 - 150, 10, 140, 35],
+    'replay': [10, 10, 110, 35],
+    'chat': [640 - 130, 440, 120, 32],
+    // 'back' button in failed combos, history and rejected words views is handled dynamically
+  },
+  [ClientPhase.DAILY_RESULTS]: {
+    'continue': [320 - 170, 415, 160, 40],
+    'summary': [320 + 10, 415, 160, 40],
   },
 };
 
+// Replay controls, drawn over whatever the replay shows - must match drawReplayControls in renderer.ts
+const REPLAY_BUTTON_DEFS: { [name: string]: [number, number, number, number] } = {
+  'pause': [10, 440, 60, 32],
+  'close': [640 - 70, 440, 60, 32],
+};
+const REPLAY_SEEK_BAR_X = 85;
+const REPLAY_SEEK_BAR_WIDTH = 380;
+
 // Check which button is at a point, returns button name or null
 function getButtonAtPoint(phase: ClientPhase, refX: number, refY: number): string | null {
   const buttons = BUTTON_DEFS[phase];
   if (!buttons) return null;
+  return findButton(buttons, refX, refY);
+}
 
+function findButton(buttons: { [name: string]: [number, number, number, number] }, refX: number, refY: number): string | null {
   for (const [name, [bx, by, bw, bh]] of Object.entries(buttons)) {
     if (refX >= bx && refX <= bx + bw && refY >= by && refY <= by + bh) {
       return name;
@@ -110,6 +171,160 @@ function getButtonAtPoint(phase: ClientPhase, refX: number, refY: number): strin
   return null;
 }
 
+// Lobby player rows - must match renderLobbyWaiting in renderer.ts
+const PLAYER_ROWS_START_Y = 170;
+const PLAYER_ROW_HEIGHT = 28;
+const BOT_REMOVE_X = 340;
+
+// Host actions on another player's row once it is selected - must match PLAYER_ACTION_LABELS in renderer.ts
+const PLAYER_ACTIONS: { action: 'kick' | 'ban' | 'host'; x: number }[] = [
+  { action: 'kick', x: 225 },
+  { action: 'ban', x: 290 },
+  { action: 'host', x: 345 },
+];
+const PLAYER_ACTION_HALF_WIDTH = 28;
+const PLAYER_ROW_LEFT = 40;
+const PLAYER_ROW_RIGHT = 375;
+
+function getPlayerRowAtPoint(refY: number, rowCount: number): number {
+  const row = Math.floor((refY - PLAYER_ROWS_START_Y + 4) / PLAYER_ROW_HEIGHT);
+  return row >= 0 && row < rowCount ? row : -1;
+}
+
+// Returns the index of the player row whose remove-bot x is at a point, or -1
+function getBotRemoveRowAtPoint(refX: number, refY: number, rowCount: number): number {
+  if (Math.abs(refX - BOT_REMOVE_X) > 15) return -1;
+  return getPlayerRowAtPoint(refY, rowCount);
+}
+
+function getPlayerActionAtPoint(refX: number): 'kick' | 'ban' | 'host' | null {
+  const hit = PLAYER_ACTIONS.find(a => Math.abs(refX - a.x) <= PLAYER_ACTION_HALF_WIDTH);
+  return hit ? hit.action : null;
+}
+
+const BOT_DIFFICULTIES = [BotDifficulty.EASY, BotDifficulty.MEDIUM, BotDifficulty.HARD];
+
+// Lobby settings panel layout - must match drawSettingsPanel in renderer.ts.
+// The rows are split into pages, all of them wouldn't fit at a height that can be tapped on a phone.
+const SETTINGS_START_Y = 152;
+const SETTINGS_ROW_HEIGHT = 36;
+const SETTINGS_ROW_COUNT = 11;
+const SETTINGS_ROWS_PER_PAGE = 4;
+const SETTINGS_PAGE_COUNT = Math.ceil(SETTINGS_ROW_COUNT / SETTINGS_ROWS_PER_PAGE);
+const SETTINGS_LEFT_X = 380;
+const SETTINGS_DEC_X = 545;
+const SETTINGS_INC_X = 615;
+const SETTINGS_ARROW_WIDTH = 40;
+const SEED_ROW = 10;
+
+// Row on the current page at a point, SETTINGS_ROWS_PER_PAGE for the page switcher under
+// the settings, or -1 outside the panel
+function getSettingsRowAtPoint(refX: number, refY: number): number {
+  if (refX < SETTINGS_LEFT_X || refX > SETTINGS_INC_X + SETTINGS_ARROW_WIDTH / 2) return -1;
+  const row = Math.floor((refY - SETTINGS_START_Y + 10) / SETTINGS_ROW_HEIGHT);
+  return row >= 0 && row <= SETTINGS_ROWS_PER_PAGE ? row : -1;
+}
+
+// Returns the row on the current page and step direction for an arrow at a point, or null
+function getSettingsArrowAtPoint(refX: number, refY: number): { row: number; delta: number } | null {
+  const row = getSettingsRowAtPoint(refX, refY);
+  if (row < 0) return null;
+
+  if (Math.abs(refX - SETTINGS_DEC_X) <= SETTINGS_ARROW_WIDTH / 2) return { row, delta: -1 };
+  if (Math.abs(refX - SETTINGS_INC_X) <= SETTINGS_ARROW_WIDTH / 2) return { row, delta: 1 };
+  return null;
+}
+
+function clampSetting(value: number, limits: { min: number; max: number }): number {
+  return Math.max(limits.min, Math.min(limits.max, value));
+}
+
+// Step a single setting (row order matches the renderer), clamped to the allowed range
+function stepSetting(state: GameState, row: number, delta: number): GameSettings {
+  const settings = state.gameSettings;
+  const next = { ...settings };
+  switch (row) {
+    case 0:
+      next.lives = clampSetting(settings.lives + delta, SETTINGS_LIMITS.lives);
+      break;
+    case 1:
+      next.turnDuration = clampSetting(settings.turnDuration + delta, SETTINGS_LIMITS.turnDuration);
+      // Timer floor can't be above the starting turn length
+      next.minTurnDuration = Math.min(settings.minTurnDuration, next.turnDuration);
+      break;
+    case 2:
+      next.comboChangePerRound = !settings.comboChangePerRound;
+      break;
+    case 3:
+      next.maxPlayers = clampSetting(settings.maxPlayers + delta, SETTINGS_LIMITS.maxPlayers);
+      break;
+    case 4:
+      next.minWordLength = clampSetting(settings.minWordLength + delta, SETTINGS_LIMITS.minWordLength);
+      break;
+    case 5: {
+      const modes = Object.values(TimerAcceleration);
+      const index = modes.indexOf(settings.timerAcceleration);
+      next.timerAcceleration = modes[(index + delta + modes.length) % modes.length];
+      break;
+    }
+    case 6:
+      next.minTurnDuration = clampSetting(settings.minTurnDuration + delta, {
+        min: SETTINGS_LIMITS.minTurnDuration.min,
+        max: settings.turnDuration,
+      });
+      break;
+    case 7:
+      next.alphabetBonus = !settings.alphabetBonus;
+      break;
+    case 8: {
+      const dictionaries = state.dictionaries;
+      if (dictionaries.length === 0) break;
+      const index = dictionaries.findIndex(d => d.id === settings.dictionary);
+      next.dictionary = dictionaries[(index + delta + dictionaries.length) % dictionaries.length].id;
+      break;
+    }
+    case 9: {
+      const curves = Object.values(DifficultyCurve);
+      const index = curves.indexOf(settings.difficultyCurve);
+      next.difficultyCurve = curves[(index + delta + curves.length) % curves.length];
+      break;
+    }
+    case SEED_ROW:
+      // Either a fresh seed every game or the last game's one again, any other is typed in
+      next.seed = settings.seed === null ? state.gameSeed : null;
+      break;
+  }
+  return next;
+}
+
+// The host taps the seed to type one in, e.g. one a friend read out
+function openSeedInput(state: GameState): void {
+  const seed = state.gameSettings.seed;
+  state.seedInput = seed === null ? '' : `${seed}`;
+  focusHiddenInput();
+}
+
+function addSeedDigit(state: GameState, char: string): void {
+  if (/[0-9]/.test(char) && state.seedInput !== null && state.seedInput.length < `${MAX_SEED}`.length) {
+    state.seedInput += char;
+  }
+}
+
+// Nothing typed goes back to a fresh seed every game
+function submitSeedInput(state: GameState): void {
+  if (state.seedInput === null) return;
+  const seed = state.seedInput.length > 0 ? Number(state.seedInput) : null;
+  if (seed !== state.gameSettings.seed) {
+    network.updateSettings({ ...state.gameSettings, seed });
+  }
+  closeSeedInput(state);
+}
+
+function closeSeedInput(state: GameState): void {
+  state.seedInput = null;
+  blurHiddenInput();
+}
+
 // Estonian character handling
 const ESTONIAN_UPPER: { [key: string]: string } = {
   'ä': 'Ä', 'ö': 'Ö', 'ü': 'Ü', 'õ': 'Õ', 'š': 'Š', 'ž': 'Ž',
@@ -176,11 +391,11 @@ export function setupInputHandlers(state: GameState): void {
   const canvas = document.getElementById('game') as HTMLCanvasElement;
   canvas.addEventListener('click', (e) => handleTap(e, state, canvas));
 
-  // Mouse wheel for scrolling failed combos
+  // Mouse wheel for scrolling failed combos and history
   canvas.addEventListener('wheel', (e) => {
-    if (state.phase === ClientPhase.GAME_OVER && state.showFailedCombos) {
+    if (state.phase === ClientPhase.GAME_OVER && (state.showFailedCombos || state.showHistory)) {
       e.preventDefault();
-      state.failedCombosScrollY += e.deltaY;
+      state.gameOverScrollY += e.deltaY;
     }
   }, { passive: false });
 
@@ -201,7 +416,7 @@ export function setupInputHandlers(state: GameState): void {
 
     // Track for scrolling
     touchStartY = touch.clientY;
-    touchStartScrollY = state.failedCombosScrollY;
+    touchStartScrollY = state.gameOverScrollY;
     isTouchScrolling = false;
 
     // Check menu items (main menu only)
@@ -227,12 +442,16 @@ export function setupInputHandlers(state: GameState): void {
       }
     }
 
+    if (state.replay) {
+      button = findButton(REPLAY_BUTTON_DEFS, refX, refY);
+    }
+
     state.pressedButton = button;
   });
 
   // Touch move - handle scrolling
   canvas.addEventListener('touchmove', (e) => {
-    if (state.phase === ClientPhase.GAME_OVER && state.showFailedCombos) {
+    if (state.phase === ClientPhase.GAME_OVER && (state.showFailedCombos || state.showHistory)) {
       const touch = e.touches[0];
       const deltaY = touchStartY - touch.clientY;
 
@@ -243,7 +462,7 @@ export function setupInputHandlers(state: GameState): void {
       }
 
       if (isTouchScrolling) {
-        state.failedCombosScrollY = touchStartScrollY + deltaY;
+        state.gameOverScrollY = touchStartScrollY + deltaY;
       }
     }
   }, { passive: false });
@@ -333,13 +552,19 @@ export function setupInputHandlers(state: GameState): void {
       } else if (state.isHost && refX >= centerX + buttonSpacing && refX <= centerX + buttonSpacing + 100 &&
           refY >= 340 && refY <= 380) {
         button = 'start';
+      } else if (state.isHost && refY >= 10 && refY <= 45) {
+        if (refX >= REFERENCE_WIDTH - 210 && refX <= REFERENCE_WIDTH - 110) {
+          button = 'botlevel';
+        } else if (refX >= REFERENCE_WIDTH - 100 && refX <= REFERENCE_WIDTH - 10) {
+          button = 'addbot';
+        }
       }
     }
 
-    // Handle game over buttons based on showFailedCombos state
+    // Handle game over buttons based on showFailedCombos / showHistory / showRejectedWords state
     if (state.phase === ClientPhase.GAME_OVER) {
-      if (state.showFailedCombos) {
-        // Only back button visible in failed combos view
+      if (state.showFailedCombos || state.showHistory || state.showRejectedWords) {
+        // Only back button visible in failed combos, history and rejected words views
         button = null;
         const centerX = REFERENCE_WIDTH / 2;
         if (refX >= centerX - 60 && refX <= centerX + 60 &&
@@ -351,9 +576,30 @@ export function setupInputHandlers(state: GameState): void {
         if (button === 'failed' && state.failedCombos.length === 0) {
           button = null;
         }
+        if (button === 'history' && state.history.length === 0) {
+          button = null;
+        }
+        if (button === 'report' && state.rejectedWords.length === 0) {
+          button = null;
+        }
+        if (button === 'replay' && !state.replayId) {
+          button = null;
+        }
       }
     }
 
+    // No chat in practice or replays, and the open chat panel covers everything but its own button
+    if (button === 'chat' && !isChatAvailable(state)) {
+      button = null;
+    } else if (button !== 'chat' && state.chatOpen && isChatAvailable(state) && state.phase !== ClientPhase.SPECTATING) {
+      button = null;
+    }
+
+    // Only the replay controls respond while a replay is on
+    if (state.replay) {
+      button = findButton(REPLAY_BUTTON_DEFS, refX, refY);
+    }
+
     if (button !== state.hoveredButton) {
       state.hoveredButton = button;
       if (button !== null) {
@@ -377,6 +623,10 @@ function handleTextInput(state: GameState, text: string): void {
         network.sendInput(state.localInput);
       }
     }
+  } else if (isTypingChat(state)) {
+    for (const char of text) {
+      addChatChar(state, char);
+    }
   } else if (state.phase === ClientPhase.SERVER_CONNECT) {
     // Only player name input
     for (const char of text) {
@@ -386,9 +636,19 @@ function handleTextInput(state: GameState, text: string): void {
     }
   } else if (state.phase === ClientPhase.LOBBY_CREATE) {
     for (const char of text) {
-      if (state.gameName.length < 20 && /[a-zA-Z0-9_\- ]/.test(char)) {
-        state.gameName += char;
-      }
+      addLobbyCreateChar(state, char);
+    }
+  } else if (state.phase === ClientPhase.JOIN_CODE) {
+    for (const char of text) {
+      addJoinCodeLetter(state, char);
+    }
+  } else if (state.phase === ClientPhase.JOIN_PASSWORD) {
+    for (const char of text) {
+      addJoinPasswordChar(state, char);
+    }
+  } else if (state.phase === ClientPhase.LOBBY_WAITING && state.seedInput !== null) {
+    for (const char of text) {
+      addSeedDigit(state, char);
     }
   }
 }
@@ -400,6 +660,11 @@ function handleTap(e: MouseEvent, state: GameState, canvas: HTMLCanvasElement):
   handleTapAt(state, x, y, rect.width, rect.height);
 }
 
+// Chat toggle, in the same place in every phase that has a chat - must match drawChat in renderer.ts
+const CHAT_BUTTON: [number, number, number, number] = [REFERENCE_WIDTH - 130, 440, 120, 32];
+// The open chat in the waiting room and on the game over screen
+const CHAT_PANEL: [number, number, number, number] = [20, 150, 600, 278];
+
 // Padding for tap areas (makes buttons easier to tap on mobile)
 const TAP_PADDING = 10;
 
@@ -413,6 +678,31 @@ function inTapArea(refX: number, refY: number, areaX: number, areaY: number, are
          refY <= areaY + areaH + TAP_PADDING;
 }
 
+// Taken before the screen underneath, returns true if the tap was for the chat
+function handleChatTap(state: GameState, refX: number, refY: number): boolean {
+  if (!isChatAvailable(state)) return false;
+
+  if (inTapArea(refX, refY, ...CHAT_BUTTON)) {
+    if (state.chatOpen) {
+      closeChat(state);
+    } else {
+      openChat(state);
+    }
+    playSound('selection', 0.3);
+    return true;
+  }
+
+  if (!state.chatOpen) return false;
+
+  // Tapping the panel brings the keyboard back, any other tap closes the chat
+  if (state.phase !== ClientPhase.SPECTATING && inTapArea(refX, refY, ...CHAT_PANEL)) {
+    focusHiddenInput();
+  } else {
+    closeChat(state);
+  }
+  return true;
+}
+
 function handleTapAt(state: GameState, tapX: number, tapY: number, winWidth: number, winHeight: number): void {
   // Debounce to prevent double-processing from touch + click events
   const now = Date.now();
@@ -426,6 +716,11 @@ function handleTapAt(state: GameState, tapX: number, tapY: number, winWidth: num
   const refX = tapX / scaleX;
   const refY = tapY / scaleY;
 
+  if (state.replay) {
+    handleReplayTap(state, refX, refY);
+    return;
+  }
+
   switch (state.phase) {
     case ClientPhase.MAIN_MENU:
       handleMainMenuTap(state, refX, refY, scaleX, scaleY);
@@ -442,6 +737,12 @@ function handleTapAt(state: GameState, tapX: number, tapY: number, winWidth: num
     case ClientPhase.LOBBY_JOIN:
       handleLobbyJoinTap(state, refX, refY);
       break;
+    case ClientPhase.JOIN_CODE:
+      handleJoinCodeTap(state, refX, refY);
+      break;
+    case ClientPhase.JOIN_PASSWORD:
+      handleJoinPasswordTap(state, refX, refY);
+      break;
     case ClientPhase.LOBBY_WAITING:
       handleLobbyWaitingTap(state, refX, refY);
       break;
@@ -452,9 +753,26 @@ function handleTapAt(state: GameState, tapX: number, tapY: number, winWidth: num
     case ClientPhase.GAME_OVER:
       handleGameOverTap(state, refX, refY);
       break;
+    case ClientPhase.STATS:
+      handleStatsTap(state, refX, refY);
+      break;
+    case ClientPhase.LEADERBOARD:
+      handleLeaderboardTap(state, refX, refY);
+      break;
+    case ClientPhase.DAILY_RESULTS:
+      handleDailyResultsTap(state, refX, refY);
+      break;
   }
 }
 
+// Where each online main menu item leads after the name screen, by menu index
+const MENU_CONNECT_TARGETS: { [index: number]: ClientPhase } = {
+  0: ClientPhase.LOBBY_CREATE,
+  1: ClientPhase.LOBBY_JOIN,
+  2: ClientPhase.DAILY_RESULTS,
+  4: ClientPhase.STATS,
+};
+
 function handleMainMenuTap(state: GameState, refX: number, refY: number, scaleX: number, scaleY: number): void {
   // Info button (bottom-right) - smaller and square on mobile
   // Convert scale ratio to actual aspect ratio: (scaleX/scaleY) * (REF_W/REF_H) = width/height
@@ -469,10 +787,15 @@ function handleMainMenuTap(state: GameState, refX: number, refY: number, scaleX:
     return;
   }
 
+  state.menuNotice = null;
   const menuItem = getMenuItemAtPoint(refX, refY, scaleX, scaleY);
-  if (menuItem !== -1) {
+  if (menuItem === 3) {
+    // Offline practice, no server needed
+    playSound('selected', 0.5);
+    startPractice(state);
+  } else if (menuItem !== -1) {
     playSound('selected', 0.5);
-    state.joiningGame = (menuItem === 1);
+    state.connectTarget = MENU_CONNECT_TARGETS[menuItem];
     state.phase = ClientPhase.SERVER_CONNECT;
   }
 }
@@ -499,11 +822,20 @@ function autoConnectToServer(state: GameState): void {
     () => {
       // Connected
       state.connected = true;
-      if (state.joiningGame) {
-        state.phase = ClientPhase.LOBBY_JOIN;
+      state.phase = state.connectTarget;
+      state.inputFocus = 0;
+      state.joinError = null;
+      state.daily = state.connectTarget === ClientPhase.DAILY_RESULTS;
+      if (state.connectTarget === ClientPhase.LOBBY_JOIN) {
         network.listGames();
-      } else {
-        state.phase = ClientPhase.LOBBY_CREATE;
+        joinInvite(state);
+      } else if (state.connectTarget === ClientPhase.STATS) {
+        state.stats = null;
+        network.getStats(state.playerName);
+      } else if (state.daily) {
+        // The results screen shows a loading text until the game starts
+        state.dailyResult = null;
+        network.startDaily(state.playerName);
       }
     },
     () => {
@@ -521,6 +853,7 @@ function handleServerConnectTap(state: GameState, refX: number, refY: number): v
   // Back button (top-left) - matches drawButton('< Back', 10, 10, 70, 35)
   if (inTapArea(refX, refY, 10, 10, 95, 35)) {
     state.phase = ClientPhase.MAIN_MENU;
+    state.inviteTarget = null;
     playSound('selected', 0.5);
     return;
   }
@@ -556,26 +889,60 @@ function handleLobbyCreateTap(state: GameState, refX: number, refY: number): voi
     return;
   }
 
-  // Game name field - matches y(185) to y(185 + 40)
-  if (inTapArea(refX, refY, 0, 185, REFERENCE_WIDTH, 40)) {
+  // Game name field - matches y(150) to y(150 + 40)
+  if (inTapArea(refX, refY, 0, 150, REFERENCE_WIDTH, 40)) {
+    state.inputFocus = 0;
     focusHiddenInput();
     return;
   }
 
-  // Create button - matches drawButton('Create', centerX - 60, 260, 120, 40)
-  if (inTapArea(refX, refY, centerX - 60, 260, 120, 40)) {
+  // Password field - matches y(220) to y(220 + 40), not shown for private games
+  if (!state.createPrivate && inTapArea(refX, refY, 0, 220, REFERENCE_WIDTH, 40)) {
+    state.inputFocus = 1;
+    focusHiddenInput();
+    return;
+  }
+
+  // Create button - matches drawButton('Create', centerX - 60, 275, 120, 40)
+  if (inTapArea(refX, refY, centerX - 60, 275, 120, 40)) {
     if (state.gameName.length > 0) {
       playSound('selected', 0.5);
       blurHiddenInput();
-      network.createGame(state.playerName, state.gameName);
+      createGame(state);
     }
     return;
   }
 
+  // Private toggle - matches drawButton(..., centerX - 80, 330, 160, 40)
+  if (inTapArea(refX, refY, centerX - 80, 330, 160, 40)) {
+    state.createPrivate = !state.createPrivate;
+    state.inputFocus = 0;
+    playSound('selection', 0.3);
+    return;
+  }
+
   // Tap anywhere else to close keyboard
   blurHiddenInput();
 }
 
+function createGame(state: GameState): void {
+  const password = state.createPrivate ? '' : state.gamePassword;
+  network.createGame(state.playerName, state.gameName, state.createPrivate, password);
+}
+
+// Typed text goes to the focused field: 0 = game name, 1 = password
+function addLobbyCreateChar(state: GameState, char: string): void {
+  if (!/[a-zA-Z0-9_\- ]/.test(char)) return;
+
+  if (state.inputFocus === 1) {
+    if (state.gamePassword.length < MAX_PASSWORD_LENGTH) {
+      state.gamePassword += char;
+    }
+  } else if (state.gameName.length < 20) {
+    state.gameName += char;
+  }
+}
+
 function handleLobbyJoinTap(state: GameState, refX: number, refY: number): void {
   // Back button (top-left) - matches drawButton('< Back', 10, 10, 70, 35)
   if (inTapArea(refX, refY, 10, 10, 95, 35)) {
@@ -592,6 +959,13 @@ function handleLobbyJoinTap(state: GameState, refX: number, refY: number): void
     return;
   }
 
+  // Join code button - matches drawButton('Kood', REFERENCE_WIDTH - 180, 10, 80, 35)
+  if (inTapArea(refX, refY, REFERENCE_WIDTH - 180, 10, 80, 35)) {
+    playSound('selected', 0.5);
+    openJoinCode(state);
+    return;
+  }
+
   // Games list - items start at y(190) with 32px spacing
   const gamesList = state.gamesList;
   const startY = 190;
@@ -602,12 +976,121 @@ function handleLobbyJoinTap(state: GameState, refX: number, refY: number): void
     if (inTapArea(refX, refY, 0, itemY, REFERENCE_WIDTH, itemHeight)) {
       state.menuSelectedIndex = i;
       playSound('selected', 0.5);
-      network.joinGame(gamesList[i].id, state.playerName);
+      state.joinError = null;
+      state.joinTarget = gamesList[i];
+      if (gamesList[i].hasPassword) {
+        openJoinPassword(state);
+      } else {
+        network.joinGame(gamesList[i].id, state.playerName);
+      }
       return;
     }
   }
 }
 
+function openJoinCode(state: GameState): void {
+  state.joinCodeInput = '';
+  state.joinError = null;
+  state.phase = ClientPhase.JOIN_CODE;
+}
+
+function addJoinCodeLetter(state: GameState, char: string): void {
+  if (state.joinCodeInput.length < JOIN_CODE_LENGTH && /[a-zA-Z]/.test(char)) {
+    state.joinCodeInput += char.toUpperCase();
+    state.joinError = null;
+  }
+}
+
+function submitJoinCode(state: GameState): void {
+  if (state.joinCodeInput.length === JOIN_CODE_LENGTH) {
+    playSound('selected', 0.5);
+    blurHiddenInput();
+    network.joinGameByCode(state.joinCodeInput, state.playerName);
+  }
+}
+
+// Back to the games list, still connected
+function backToGamesList(state: GameState): void {
+  blurHiddenInput();
+  state.joinError = null;
+  state.phase = ClientPhase.LOBBY_JOIN;
+  network.listGames();
+}
+
+function handleJoinCodeTap(state: GameState, refX: number, refY: number): void {
+  const centerX = REFERENCE_WIDTH / 2;
+
+  // Back button (top-left)
+  if (inTapArea(refX, refY, 10, 10, 95, 35)) {
+    playSound('selected', 0.5);
+    backToGamesList(state);
+    return;
+  }
+
+  // Code field - matches y(190) to y(190 + 40)
+  if (inTapArea(refX, refY, 0, 190, REFERENCE_WIDTH, 40)) {
+    focusHiddenInput();
+    return;
+  }
+
+  // Join button - matches drawButton('Liitu', centerX - 60, 260, 120, 40)
+  if (inTapArea(refX, refY, centerX - 60, 260, 120, 40)) {
+    submitJoinCode(state);
+    return;
+  }
+
+  // Tap anywhere else to close keyboard
+  blurHiddenInput();
+}
+
+// For state.joinTarget
+function openJoinPassword(state: GameState): void {
+  state.joinPassword = '';
+  state.joinError = null;
+  state.phase = ClientPhase.JOIN_PASSWORD;
+}
+
+function addJoinPasswordChar(state: GameState, char: string): void {
+  if (state.joinPassword.length < MAX_PASSWORD_LENGTH && /[a-zA-Z0-9_\- ]/.test(char)) {
+    state.joinPassword += char;
+    state.joinError = null;
+  }
+}
+
+function submitJoinPassword(state: GameState): void {
+  if (state.joinTarget && state.joinPassword.length > 0) {
+    playSound('selected', 0.5);
+    blurHiddenInput();
+    network.joinGame(state.joinTarget.id, state.playerName, state.joinPassword);
+  }
+}
+
+function handleJoinPasswordTap(state: GameState, refX: number, refY: number): void {
+  const centerX = REFERENCE_WIDTH / 2;
+
+  // Back button (top-left)
+  if (inTapArea(refX, refY, 10, 10, 95, 35)) {
+    playSound('selected', 0.5);
+    backToGamesList(state);
+    return;
+  }
+
+  // Password field - matches y(185) to y(185 + 40)
+  if (inTapArea(refX, refY, 0, 185, REFERENCE_WIDTH, 40)) {
+    focusHiddenInput();
+    return;
+  }
+
+  // Join button - matches drawButton('Liitu', centerX - 60, 260, 120, 40)
+  if (inTapArea(refX, refY, centerX - 60, 260, 120, 40)) {
+    submitJoinPassword(state);
+    return;
+  }
+
+  // Tap anywhere else to close keyboard
+  blurHiddenInput();
+}
+
 function handleLobbyWaitingTap(state: GameState, refX: number, refY: number): void {
   const centerX = REFERENCE_WIDTH / 2;
 
@@ -616,6 +1099,15 @@ function handleLobbyWaitingTap(state: GameState, refX: number, refY: number): vo
   const mobileBoost = aspectRatio < 1.0 ? 1.0 + (1.0 - aspectRatio) * 0.4 : 1.0;
   const buttonSpacing = 10 + (mobileBoost - 1) * 40;
 
+  // Tapping anywhere while typing a seed is done with it
+  if (state.seedInput !== null) {
+    submitSeedInput(state);
+    playSound('selection', 0.3);
+    return;
+  }
+
+  if (handleChatTap(state, refX, refY)) return;
+
   // Back button (top-left) - matches drawButton('< Back', 20, 10, 85, 35)
   if (inTapArea(refX, refY, 10, 10, 95, 35)) {
     network.disconnect();
@@ -625,6 +1117,82 @@ function handleLobbyWaitingTap(state: GameState, refX: number, refY: number): vo
     return;
   }
 
+  // Copy invite link - matches drawButton('Kopeeri kutse', 10, 55, 140, 32)
+  if (inTapArea(refX, refY, 10, 55, 140, 32)) {
+    playSound('selected', 0.5);
+    copyInviteLink(state);
+    return;
+  }
+
+  // Bot controls (host only) - match the buttons at the top-right in renderLobbyWaiting
+  if (state.isHost) {
+    if (inTapArea(refX, refY, REFERENCE_WIDTH - 210, 10, 100, 35)) {
+      const index = BOT_DIFFICULTIES.indexOf(state.botDifficulty);
+      state.botDifficulty = BOT_DIFFICULTIES[(index + 1) % BOT_DIFFICULTIES.length];
+      playSound('selection', 0.3);
+      return;
+    }
+    if (inTapArea(refX, refY, REFERENCE_WIDTH - 100, 10, 90, 35)) {
+      network.addBot(state.botDifficulty);
+      playSound('selected', 0.5);
+      return;
+    }
+
+    const row = getBotRemoveRowAtPoint(refX, refY, state.players.length);
+    const bot = row >= 0 ? state.players[row] : null;
+    if (bot && bot.botDifficulty) {
+      network.removeBot(bot.id);
+      playSound('selection', 0.3);
+      return;
+    }
+
+    // Tapping another player's row opens the kick, ban and make host actions on it
+    const playerRow = refX >= PLAYER_ROW_LEFT && refX <= PLAYER_ROW_RIGHT
+      ? getPlayerRowAtPoint(refY, state.players.length) : -1;
+    const tapped = playerRow >= 0 ? state.players[playerRow] : null;
+    if (tapped && tapped.id === state.selectedPlayerId) {
+      const action = getPlayerActionAtPoint(refX);
+      if (action === 'kick') {
+        network.kickPlayer(tapped.id);
+      } else if (action === 'ban') {
+        network.banPlayer(tapped.id);
+      } else if (action === 'host') {
+        network.transferHost(tapped.id);
+      }
+      playSound(action ? 'selected' : 'selection', action ? 0.5 : 0.3);
+      state.selectedPlayerId = null;
+      return;
+    }
+    if (tapped && !tapped.botDifficulty && tapped.id !== state.playerId) {
+      state.selectedPlayerId = tapped.id;
+      playSound('selection', 0.3);
+      return;
+    }
+  }
+  state.selectedPlayerId = null;
+
+  // Settings pages (anyone) and arrows (host only)
+  const arrow = getSettingsArrowAtPoint(refX, refY);
+  if (arrow && arrow.row === SETTINGS_ROWS_PER_PAGE) {
+    state.settingsPage = (state.settingsPage + arrow.delta + SETTINGS_PAGE_COUNT) % SETTINGS_PAGE_COUNT;
+    playSound('selection', 0.3);
+    return;
+  }
+  if (arrow && state.isHost) {
+    const row = state.settingsPage * SETTINGS_ROWS_PER_PAGE + arrow.row;
+    if (row < SETTINGS_ROW_COUNT) {
+      network.updateSettings(stepSetting(state, row, arrow.delta));
+      playSound('selection', 0.3);
+      return;
+    }
+  }
+  const settingsRow = getSettingsRowAtPoint(refX, refY);
+  if (state.isHost && settingsRow >= 0 && state.settingsPage * SETTINGS_ROWS_PER_PAGE + settingsRow === SEED_ROW) {
+    openSeedInput(state);
+    playSound('selection', 0.3);
+    return;
+  }
+
   // Ready button - dynamic position based on mobile boost
   if (inTapArea(refX, refY, centerX - 100 - buttonSpacing, 340, 100, 40)) {
     const local = getLocalPlayer(state);
@@ -640,14 +1208,108 @@ function handleLobbyWaitingTap(state: GameState, refX: number, refY: number): vo
   if (state.isHost && inTapArea(refX, refY, centerX + buttonSpacing, 340, 100, 40)) {
     const readyCount = getReadyCount(state);
     if (readyCount >= MIN_PLAYERS) {
-      network.startGame();
+      network.startGame(state.gameSettings);
       playSound('selected', 0.5);
     }
     return;
   }
 }
 
+function handleStatsTap(state: GameState, refX: number, refY: number): void {
+  // Back button (top-left)
+  if (inTapArea(refX, refY, 10, 10, 95, 35)) {
+    network.disconnect();
+    state.phase = ClientPhase.MAIN_MENU;
+    playSound('selected', 0.5);
+    return;
+  }
+
+  // Leaderboard button (bottom)
+  if (inTapArea(refX, refY, REFERENCE_WIDTH / 2 - 70, 400, 140, 40)) {
+    playSound('selected', 0.5);
+    state.phase = ClientPhase.LEADERBOARD;
+    showLeaderboard(state, state.leaderboardCategory, state.leaderboardWindow);
+  }
+}
+
+const LEADERBOARD_CATEGORIES = [
+  LeaderboardCategory.WINS,
+  LeaderboardCategory.WORDS,
+  LeaderboardCategory.LONGEST_WORD,
+  LeaderboardCategory.FASTEST_ANSWER,
+];
+const LEADERBOARD_WINDOWS = [LeaderboardWindow.TODAY, LeaderboardWindow.WEEK, LeaderboardWindow.ALL_TIME];
+
+function showLeaderboard(state: GameState, category: LeaderboardCategory, window: LeaderboardWindow): void {
+  state.leaderboardCategory = category;
+  state.leaderboardWindow = window;
+  state.leaderboard = null;
+  network.getLeaderboard(category, window);
+}
+
+function stepLeaderboardCategory(state: GameState, delta: number): void {
+  const count = LEADERBOARD_CATEGORIES.length;
+  const index = LEADERBOARD_CATEGORIES.indexOf(state.leaderboardCategory);
+  showLeaderboard(state, LEADERBOARD_CATEGORIES[(index + delta + count) % count], state.leaderboardWindow);
+  playSound('selection', 0.3);
+}
+
+function handleLeaderboardTap(state: GameState, refX: number, refY: number): void {
+  // Back button (top-left) returns to the stats screen
+  if (inTapArea(refX, refY, 10, 10, 95, 35)) {
+    state.phase = ClientPhase.STATS;
+    playSound('selected', 0.5);
+    return;
+  }
+
+  // Category arrows - match the '<' and '>' at x(150) and x(490), y(105) in renderLeaderboard
+  if (refY >= 95 && refY <= 140) {
+    if (Math.abs(refX - 150) <= 25) {
+      stepLeaderboardCategory(state, -1);
+      return;
+    }
+    if (Math.abs(refX - 490) <= 25) {
+      stepLeaderboardCategory(state, 1);
+      return;
+    }
+  }
+
+  // Time window tabs
+  for (let i = 0; i < LEADERBOARD_WINDOWS.length; i++) {
+    if (inTapArea(refX, refY, REFERENCE_WIDTH / 2 - 165 + i * 115, 150, 100, 35)) {
+      showLeaderboard(state, state.leaderboardCategory, LEADERBOARD_WINDOWS[i]);
+      playSound('selection', 0.3);
+      return;
+    }
+  }
+}
+
+function leaveDailyResults(state: GameState): void {
+  network.disconnect();
+  state.phase = ClientPhase.MAIN_MENU;
+  state.players = [];
+}
+
+function handleDailyResultsTap(state: GameState, refX: number, refY: number): void {
+  if (!state.dailyResult) return;
+
+  // Menu button (bottom left)
+  if (inTapArea(refX, refY, REFERENCE_WIDTH / 2 - 170, 415, 160, 40)) {
+    playSound('selected', 0.5);
+    leaveDailyResults(state);
+    return;
+  }
+
+  // Summary button (bottom right) shows the regular game over screen
+  if (inTapArea(refX, refY, REFERENCE_WIDTH / 2 + 10, 415, 160, 40)) {
+    playSound('selected', 0.5);
+    state.phase = ClientPhase.GAME_OVER;
+  }
+}
+
 function handleGameTap(state: GameState, refX: number, refY: number): void {
+  if (handleChatTap(state, refX, refY)) return;
+
   // Input text area - tap to open keyboard (around y=220, height ~60)
   if (isMyTurn(state) && inTapArea(refX, refY, 0, 190, REFERENCE_WIDTH, 70)) {
     focusHiddenInput();
@@ -661,16 +1323,24 @@ function handleGameTap(state: GameState, refX: number, refY: number): void {
 function handleGameOverTap(state: GameState, refX: number, refY: number): void {
   const centerX = REFERENCE_WIDTH / 2;
 
-  if (state.showFailedCombos) {
-    // Back button when viewing failed combos
+  if (state.showFailedCombos || state.showHistory) {
+    // Back button when viewing failed combos or history
     if (inTapArea(refX, refY, centerX - 60, 400, 120, 40)) {
       playSound('selected', 0.5);
       state.showFailedCombos = false;
+      state.showHistory = false;
       return;
     }
     return;
   }
 
+  if (state.showRejectedWords) {
+    handleRejectedWordsTap(state, refX, refY);
+    return;
+  }
+
+  if (handleChatTap(state, refX, refY)) return;
+
   // Continue button - matches drawButton(buttonText, centerX - 80, 360, 160, 45)
   if (inTapArea(refX, refY, centerX - 80, 360, 160, 45)) {
     playSound('selected', 0.5);
@@ -688,10 +1358,32 @@ function handleGameOverTap(state: GameState, refX: number, refY: number): void {
   }
 
   // View Failed Combos button (only if there are failed combos)
-  if (state.failedCombos.length > 0 && inTapArea(refX, refY, centerX - 70, 420, 140, 40)) {
+  if (state.failedCombos.length > 0 && inTapArea(refX, refY, centerX - 150, 420, 140, 40)) {
     playSound('selected', 0.5);
     state.showFailedCombos = true;
-    state.failedCombosScrollY = 0; // Reset scroll position
+    state.gameOverScrollY = 0; // Reset scroll position
+    return;
+  }
+
+  // Game history button (only if any turn was played)
+  if (state.history.length > 0 && inTapArea(refX, refY, centerX + 10, 420, 140, 40)) {
+    playSound('selected', 0.5);
+    state.showHistory = true;
+    state.gameOverScrollY = 0;
+    return;
+  }
+
+  // Report missing words button (only if the dictionary rejected any of ours)
+  if (state.rejectedWords.length > 0 && inTapArea(refX, refY, REFERENCE_WIDTH - 150, 10, 140, 35)) {
+    playSound('selected', 0.5);
+    state.showRejectedWords = true;
+    return;
+  }
+
+  // Watch the replay (leaves the game)
+  if (state.replayId && inTapArea(refX, refY, 10, 10, 110, 35)) {
+    playSound('selected', 0.5);
+    startReplay(state, state.replayId);
     return;
   }
 
@@ -699,6 +1391,66 @@ function handleGameOverTap(state: GameState, refX: number, refY: number): void {
   blurHiddenInput();
 }
 
+function handleReplayTap(state: GameState, refX: number, refY: number): void {
+  const replay = state.replay;
+  if (!replay) return;
+
+  if (inTapArea(refX, refY, 640 - 70, 440, 60, 32)) {
+    playSound('selected', 0.5);
+    stopReplay(state);
+    return;
+  }
+
+  if (inTapArea(refX, refY, 10, 440, 60, 32)) {
+    toggleReplayPause(state);
+    return;
+  }
+
+  // Seek bar - jump to the tapped point
+  if (refY >= 440 && refY <= 472 && refX >= REPLAY_SEEK_BAR_X && refX <= REPLAY_SEEK_BAR_X + REPLAY_SEEK_BAR_WIDTH) {
+    seekReplay(state, (refX - REPLAY_SEEK_BAR_X) / REPLAY_SEEK_BAR_WIDTH * replay.durationMs);
+  }
+}
+
+function handleReplayInput(e: KeyboardEvent, state: GameState): void {
+  const replay = state.replay;
+  if (!replay) return;
+
+  if (e.key === 'Escape') {
+    stopReplay(state);
+  } else if (e.key === ' ' || e.key === 'Enter') {
+    toggleReplayPause(state);
+  } else if (e.key === 'ArrowLeft') {
+    seekReplay(state, replay.position - REPLAY_SEEK_STEP_MS);
+  } else if (e.key === 'ArrowRight') {
+    seekReplay(state, replay.position + REPLAY_SEEK_STEP_MS);
+  }
+}
+
+// Rejected words rows - must match renderRejectedWords in renderer.ts
+const REJECTED_ROWS_START_Y = 120;
+const REJECTED_ROW_HEIGHT = 32;
+
+function handleRejectedWordsTap(state: GameState, refX: number, refY: number): void {
+  const centerX = REFERENCE_WIDTH / 2;
+
+  if (inTapArea(refX, refY, centerX - 60, 400, 120, 40)) {
+    playSound('selected', 0.5);
+    state.showRejectedWords = false;
+    return;
+  }
+
+  if (refX < 190 || refX > 540) return;
+
+  const row = Math.floor((refY - REJECTED_ROWS_START_Y + 4) / REJECTED_ROW_HEIGHT);
+  const rejected = state.rejectedWords[row];
+  if (row < 0 || !rejected || rejected.reported) return;
+
+  playSound('selected', 0.5);
+  network.reportWord(rejected.word);
+  rejected.reported = true;
+}
+
 export function focusHiddenInput(): void {
   if (hiddenInput) {
     hiddenInput.focus();
@@ -729,6 +1481,16 @@ function handleKeyDown(e: KeyboardEvent, state: GameState): void {
     return;
   }
 
+  if (state.replay) {
+    handleReplayInput(e, state);
+    return;
+  }
+
+  if (isTypingChat(state)) {
+    handleChatInput(e, state);
+    return;
+  }
+
   switch (state.phase) {
     case ClientPhase.MAIN_MENU:
       handleMainMenuInput(e, state);
@@ -750,6 +1512,14 @@ function handleKeyDown(e: KeyboardEvent, state: GameState): void {
       handleLobbyJoinInput(e, state);
       break;
 
+    case ClientPhase.JOIN_CODE:
+      handleJoinCodeInput(e, state);
+      break;
+
+    case ClientPhase.JOIN_PASSWORD:
+      handleJoinPasswordInput(e, state);
+      break;
+
     case ClientPhase.LOBBY_WAITING:
       handleLobbyWaitingInput(e, state);
       break;
@@ -762,11 +1532,24 @@ function handleKeyDown(e: KeyboardEvent, state: GameState): void {
     case ClientPhase.GAME_OVER:
       handleGameOverInput(e, state);
       break;
+
+    case ClientPhase.STATS:
+      handleStatsInput(e, state);
+      break;
+
+    case ClientPhase.LEADERBOARD:
+      handleLeaderboardInput(e, state);
+      break;
+
+    case ClientPhase.DAILY_RESULTS:
+      handleDailyResultsInput(e, state);
+      break;
   }
 }
 
 function handleMainMenuInput(e: KeyboardEvent, state: GameState): void {
-  const menuItems = 2; // Create, Join
+  const menuItems = 5; // Create, Join, Daily challenge, Practice, Stats
+  state.menuNotice = null;
 
   if (e.key === 'ArrowUp') {
     state.prevSelectedIndex = state.menuSelectedIndex;
@@ -780,13 +1563,12 @@ function handleMainMenuInput(e: KeyboardEvent, state: GameState): void {
     playSound('selection', 0.3);
   } else if (e.key === 'Enter') {
     playSound('selected', 0.5);
-    if (state.menuSelectedIndex === 0) {
-      // Create game
-      state.joiningGame = false;
-      state.phase = ClientPhase.SERVER_CONNECT;
-    } else if (state.menuSelectedIndex === 1) {
-      // Join game
-      state.joiningGame = true;
+    if (state.menuSelectedIndex === 3) {
+      // Offline practice
+      startPractice(state);
+    } else {
+      // Create game, join game, daily challenge or stats
+      state.connectTarget = MENU_CONNECT_TARGETS[state.menuSelectedIndex];
       state.phase = ClientPhase.SERVER_CONNECT;
     }
   } else if (e.key === 'Escape') {
@@ -803,6 +1585,7 @@ function handleInfoInput(e: KeyboardEvent, state: GameState): void {
 function handleServerConnectInput(e: KeyboardEvent, state: GameState): void {
   if (e.key === 'Escape') {
     state.phase = ClientPhase.MAIN_MENU;
+    state.inviteTarget = null;
     return;
   }
 
@@ -836,22 +1619,29 @@ function handleLobbyCreateInput(e: KeyboardEvent, state: GameState): void {
   }
 
   if (e.key === 'Backspace') {
-    if (state.gameName.length > 0) {
+    if (state.inputFocus === 1) {
+      state.gamePassword = state.gamePassword.slice(0, -1);
+    } else if (state.gameName.length > 0) {
       state.gameName = state.gameName.slice(0, -1);
     }
     return;
   }
 
   if (e.key === 'Enter' && state.gameName.length > 0) {
-    network.createGame(state.playerName, state.gameName);
+    createGame(state);
     return;
   }
 
-  // Text input for game name
+  // Switch between the name and password fields
+  if ((e.key === 'Tab' || e.key === 'ArrowUp' || e.key === 'ArrowDown') && !state.createPrivate) {
+    e.preventDefault();
+    state.inputFocus = state.inputFocus === 1 ? 0 : 1;
+    return;
+  }
+
+  // Text input for the focused field
   if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
-    if (state.gameName.length < 20 && /[a-zA-Z0-9_\- ]/.test(e.key)) {
-      state.gameName += e.key;
-    }
+    addLobbyCreateChar(state, e.key);
   }
 }
 
@@ -861,10 +1651,103 @@ function handleLobbyJoinInput(e: KeyboardEvent, state: GameState): void {
     state.phase = ClientPhase.MAIN_MENU;
   } else if (e.key === 'r' || e.key === 'R') {
     network.listGames();
+  } else if (e.key === 'k' || e.key === 'K') {
+    openJoinCode(state);
+  }
+}
+
+function handleJoinCodeInput(e: KeyboardEvent, state: GameState): void {
+  if (e.key === 'Escape') {
+    backToGamesList(state);
+    return;
+  }
+
+  if (e.key === 'Backspace') {
+    state.joinCodeInput = state.joinCodeInput.slice(0, -1);
+    state.joinError = null;
+    return;
+  }
+
+  if (e.key === 'Enter') {
+    submitJoinCode(state);
+    return;
+  }
+
+  if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
+    addJoinCodeLetter(state, e.key);
+  }
+}
+
+function handleJoinPasswordInput(e: KeyboardEvent, state: GameState): void {
+  if (e.key === 'Escape') {
+    backToGamesList(state);
+    return;
+  }
+
+  if (e.key === 'Backspace') {
+    state.joinPassword = state.joinPassword.slice(0, -1);
+    state.joinError = null;
+    return;
+  }
+
+  if (e.key === 'Enter') {
+    submitJoinPassword(state);
+    return;
+  }
+
+  if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
+    addJoinPasswordChar(state, e.key);
+  }
+}
+
+function handleChatInput(e: KeyboardEvent, state: GameState): void {
+  if (e.key === 'Escape') {
+    closeChat(state);
+    return;
+  }
+
+  if (e.key === 'Enter') {
+    sendChat(state);
+    return;
+  }
+
+  if (e.key === 'Backspace') {
+    state.chatInput = state.chatInput.slice(0, -1);
+    return;
+  }
+
+  if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
+    addChatChar(state, e.key);
+  }
+}
+
+function handleSeedInput(e: KeyboardEvent, state: GameState): void {
+  if (e.key === 'Escape') {
+    closeSeedInput(state);
+    return;
+  }
+
+  if (e.key === 'Enter') {
+    submitSeedInput(state);
+    return;
+  }
+
+  if (e.key === 'Backspace') {
+    state.seedInput = state.seedInput!.slice(0, -1);
+    return;
+  }
+
+  if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
+    addSeedDigit(state, e.key);
   }
 }
 
 function handleLobbyWaitingInput(e: KeyboardEvent, state: GameState): void {
+  if (state.seedInput !== null) {
+    handleSeedInput(e, state);
+    return;
+  }
+
   if (e.key === 'Escape') {
     network.disconnect();
     state.phase = ClientPhase.MAIN_MENU;
@@ -872,6 +1755,12 @@ function handleLobbyWaitingInput(e: KeyboardEvent, state: GameState): void {
     return;
   }
 
+  if (e.key === 'v' || e.key === 'V') {
+    e.preventDefault();  // Would otherwise land in the chat input that just got focus
+    openChat(state);
+    return;
+  }
+
   if (e.key === 'r' || e.key === 'R') {
     // Toggle ready state
     const local = getLocalPlayer(state);
@@ -888,7 +1777,7 @@ function handleLobbyWaitingInput(e: KeyboardEvent, state: GameState): void {
     console.log('Enter pressed, readyCount:', readyCount, 'MIN_PLAYERS:', MIN_PLAYERS);
     if (readyCount >= MIN_PLAYERS) {
       console.log('Starting game via Enter...');
-      network.startGame();
+      network.startGame(state.gameSettings);
       playSound('selected', 0.5);
     }
   }
@@ -902,8 +1791,14 @@ function handleGameInput(e: KeyboardEvent, state: GameState): void {
     return;
   }
 
-  // Only handle input if it's our turn
-  if (!isMyTurn(state)) return;
+  // Only handle input if it's our turn, others can chat meanwhile
+  if (!isMyTurn(state)) {
+    if (e.key === 'v' || e.key === 'V') {
+      e.preventDefault();
+      openChat(state);
+    }
+    return;
+  }
 
   if (e.key === 'Backspace') {
     if (state.localInput.length > 0) {
@@ -932,10 +1827,47 @@ function handleGameInput(e: KeyboardEvent, state: GameState): void {
   }
 }
 
+function handleStatsInput(e: KeyboardEvent, state: GameState): void {
+  if (e.key === 'Escape' || e.key === 'Enter') {
+    network.disconnect();
+    state.phase = ClientPhase.MAIN_MENU;
+  }
+}
+
+function handleDailyResultsInput(e: KeyboardEvent, state: GameState): void {
+  if (state.dailyResult && (e.key === 'Escape' || e.key === 'Enter')) {
+    leaveDailyResults(state);
+  }
+}
+
+function handleLeaderboardInput(e: KeyboardEvent, state: GameState): void {
+  if (e.key === 'Escape') {
+    state.phase = ClientPhase.STATS;
+    return;
+  }
+
+  if (e.key === 'ArrowLeft') {
+    stepLeaderboardCategory(state, -1);
+  } else if (e.key === 'ArrowRight') {
+    stepLeaderboardCategory(state, 1);
+  } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+    const count = LEADERBOARD_WINDOWS.length;
+    const index = LEADERBOARD_WINDOWS.indexOf(state.leaderboardWindow);
+    const delta = e.key === 'ArrowDown' ? 1 : -1;
+    showLeaderboard(state, state.leaderboardCategory, LEADERBOARD_WINDOWS[(index + delta + count) % count]);
+    playSound('selection', 0.3);
+  }
+}
+
 function handleGameOverInput(e: KeyboardEvent, state: GameState): void {
   if (e.key === 'Escape') {
-    if (state.showFailedCombos) {
+    if (state.showFailedCombos || state.showHistory) {
       state.showFailedCombos = false;
+      state.showHistory = false;
+      return;
+    }
+    if (state.showRejectedWords) {
+      state.showRejectedWords = false;
       return;
     }
     network.disconnect();
@@ -944,24 +1876,38 @@ function handleGameOverInput(e: KeyboardEvent, state: GameState): void {
     return;
   }
 
-  // Scroll failed combos with arrow keys
-  if (state.showFailedCombos) {
+  // Scroll failed combos and history with arrow keys
+  if (state.showFailedCombos || state.showHistory) {
     const scrollAmount = 50;
     if (e.key === 'ArrowUp') {
-      state.failedCombosScrollY -= scrollAmount;
+      state.gameOverScrollY -= scrollAmount;
       return;
     }
     if (e.key === 'ArrowDown') {
-      state.failedCombosScrollY += scrollAmount;
+      state.gameOverScrollY += scrollAmount;
       return;
     }
     if (e.key === 'Enter') {
       state.showFailedCombos = false;
+      state.showHistory = false;
       return;
     }
     return;
   }
 
+  if (state.showRejectedWords) {
+    if (e.key === 'Enter') {
+      state.showRejectedWords = false;
+    }
+    return;
+  }
+
+  if (e.key === 'v' || e.key === 'V') {
+    e.preventDefault();
+    openChat(state);
+    return;
+  }
+
   if (e.key === 'Enter') {
     // Return to lobby
     if (state.players.length > 1) {
@@ -0,0 +1,61 @@
+import { JOIN_CODE_LENGTH } from './protocol';
+import { GameState, ClientPhase } from './state';
+import * as network from './network';
+
+// Invite links: /g/<game id>, or /g/<join code> for private games, which can't be joined by id.
+// The server answers any such path with the client page.
+
+const INVITE_PATH = /^\/g\/([A-Za-z0-9]+)\/?$/;
+
+// How long the waiting room shows that the link was copied
+const INVITE_COPIED_SECONDS = 2;
+
+export function readInviteLink(pathname: string): string | null {
+  const match = INVITE_PATH.exec(pathname);
+  return match ? match[1] : null;
+}
+
+function isJoinCode(target: string): boolean {
+  return target.length === JOIN_CODE_LENGTH && /^[A-Za-z]+$/.test(target);
+}
+
+// Goes to the name screen, the game is joined once connected
+export function openInvite(state: GameState, target: string): void {
+  state.inviteTarget = target;
+  state.connectTarget = ClientPhase.LOBBY_JOIN;
+  state.phase = ClientPhase.SERVER_CONNECT;
+}
+
+// A rejected join leaves the player on the games list with the reason shown
+export function joinInvite(state: GameState): void {
+  const target = state.inviteTarget;
+  if (!target) return;
+  state.inviteTarget = null;
+
+  if (isJoinCode(target)) {
+    network.joinGameByCode(target, state.playerName);
+  } else {
+    // Known for the password screen, should the game need one
+    state.joinTarget = { id: target, name: '' };
+    network.joinGame(target, state.playerName);
+  }
+}
+
+export function copyInviteLink(state: GameState): void {
+  const url = `${window.location.origin}/g/${state.lobbyJoinCode || state.gameId}`;
+
+  // The clipboard API is only there on https and localhost, let the player copy it by hand otherwise
+  if (!navigator.clipboard) {
+    window.prompt('Kutse link:', url);
+    return;
+  }
+
+  navigator.clipboard.writeText(url)
+    .then(() => {
+      state.inviteCopiedUntil = state.animTime + INVITE_COPIED_SECONDS;
+    })
+    .catch((e) => {
+      console.error('Failed to copy invite link:', e);
+      window.prompt('Kutse link:', url);
+    });
+}
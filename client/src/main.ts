@@ -2,7 +2,9 @@ import { GameState, ClientPhase, createInitialState } from './state';
 import { initRenderer, render } from './renderer';
 import { setupInputHandlers } from './input';
 import { initAudio, loadAllSounds, playSound } from './audio';
-import { processMessages } from './network';
+import { processMessages, requestSnapshot } from './network';
+import { startReplay, updateReplay } from './replay';
+import { readInviteLink, openInvite } from './invite';
 
 let state: GameState;
 let lastTime = 0;
@@ -24,6 +26,25 @@ async function init(): Promise<void> {
   // Setup input handlers
   setupInputHandlers(state);
 
+  // Replay links: ?replay=<id>
+  const replayId = new URLSearchParams(window.location.search).get('replay');
+  if (replayId) {
+    startReplay(state, replayId);
+  }
+
+  // Invite links: /g/<game id or join code>
+  const inviteTarget = readInviteLink(window.location.pathname);
+  if (inviteTarget && !replayId) {
+    openInvite(state, inviteTarget);
+  }
+
+  // Timers and messages may have been throttled while the tab was hidden - resync
+  document.addEventListener('visibilitychange', () => {
+    if (!document.hidden && state.gameId && state.connected) {
+      requestSnapshot();
+    }
+  });
+
   // Start game loop
   lastTime = performance.now();
   requestAnimationFrame(gameLoop);
@@ -46,13 +67,15 @@ function gameLoop(currentTime: number): void {
 function update(deltaTime: number): void {
   // Process network messages
   processMessages(state);
+  updateReplay(state, deltaTime);
 
   // Update animation time
   state.animTime += deltaTime;
   state.menuTransitionTime += deltaTime;
 
-  // Update turn timer (client-side prediction)
-  if (state.phase === ClientPhase.PLAYING || state.phase === ClientPhase.SPECTATING) {
+  // Update turn timer (client-side prediction), held while a replay is paused
+  const isGamePhase = state.phase === ClientPhase.PLAYING || state.phase === ClientPhase.SPECTATING;
+  if (isGamePhase && !state.replay?.paused) {
     state.turnTimer -= deltaTime;
     if (state.turnTimer < 0) {
       state.turnTimer = 0;
@@ -187,7 +210,7 @@ function updateButtonHighlights(deltaTime: number): void {
   }
 
   // Update button highlights
-  const allButtons = ['back', 'continue', 'create', 'refresh', 'ready', 'start', 'failed', 'info'];
+  const allButtons = ['back', 'continue', 'create', 'refresh', 'ready', 'start', 'failed', 'history', 'info', 'addbot', 'botlevel', 'leaderboard', 'today', 'week', 'alltime', 'report', 'summary', 'replay', 'pause', 'close', 'private', 'code', 'join', 'invite', 'chat'];
   for (const button of allButtons) {
     const isActive = button === state.hoveredButton || button === state.pressedButton;
     const current = state.buttonHighlightOpacity[button] || 0;
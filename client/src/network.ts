@@ -4,13 +4,26 @@ import {
   ServerMessage,
   TurnResult,
   PlayerState,
-  DEFAULT_LIVES,
+  GamePhase,
+  GameSettings,
+  GameSnapshotMessage,
+  BotDifficulty,
+  LeaderboardCategory,
+  LeaderboardWindow,
+  JoinRejectReason,
 } from './protocol';
-import { GameState, ClientPhase, resetGameState } from './state';
+import { GameState, ClientPhase, resetGameState, isMyTurn, MAX_REJECTED_WORDS } from './state';
 import { blurHiddenInput, focusHiddenInput } from './input';
+import { receiveChat, resetChat } from './chat';
 
 type MessageHandler = (state: GameState, message: ServerMessage) => void;
 
+// Stands in for the server in offline practice: gets what we would send and answers via deliverLocalMessage
+export interface LocalServer {
+  receive(message: ClientMessage): void;
+  close(): void;
+}
+
 let ws: WebSocket | null = null;
 let messageHandlers: Map<MessageType, MessageHandler> = new Map();
 let onConnectCallback: (() => void) | null = null;
@@ -18,7 +31,12 @@ let onDisconnectCallback: (() => void) | null = null;
 let currentState: GameState | null = null;
 let connectionTimeout: ReturnType<typeof setTimeout> | null = null;
 let retryCount = 0;
+let reconnectToken: string | null = null;
+let previousToken: string | null = null;  // Kept after leaving, sent along with joins so a ban can recognise us
+let resuming = false;
+let localServer: LocalServer | null = null;
 const MAX_RETRIES = 3;
+const RESUME_MAX_RETRIES = 10;  // Server keeps the seat for 30 seconds
 const CONNECTION_TIMEOUT_MS = 5000;
 
 export function connect(
@@ -27,7 +45,13 @@ export function connect(
   onDisconnect?: () => void
 ): void {
   if (ws) {
-    ws.close();
+    // Replaced on purpose - its close must not retry or clear the new socket
+    ws.onclose = null;
+    ws.close(1000);
+  }
+  if (localServer) {
+    localServer.close();
+    localServer = null;
   }
 
   if (connectionTimeout) {
@@ -48,7 +72,7 @@ export function connect(
   connectionTimeout = setTimeout(() => {
     if (ws && ws.readyState === WebSocket.CONNECTING) {
       console.log('Connection timeout, closing...');
-      ws.close();
+      ws.close(1000);
     }
   }, CONNECTION_TIMEOUT_MS);
 
@@ -59,6 +83,16 @@ export function connect(
       clearTimeout(connectionTimeout);
       connectionTimeout = null;
     }
+
+    // Reconnected after a drop - take our seat back instead of starting over
+    if (resuming && reconnectToken) {
+      sendMessage({
+        type: MessageType.RESUME_SESSION,
+        reconnectToken,
+      });
+      return;
+    }
+
     if (onConnectCallback) onConnectCallback();
   };
 
@@ -70,15 +104,21 @@ export function connect(
       connectionTimeout = null;
     }
 
-    // Retry if we haven't exceeded max retries
-    if (retryCount < MAX_RETRIES && onConnectCallback) {
+    // Retry if we haven't exceeded max retries (more patient when we have a seat to resume)
+    const maxRetries = reconnectToken ? RESUME_MAX_RETRIES : MAX_RETRIES;
+    if (retryCount < maxRetries && onConnectCallback) {
       retryCount++;
+      resuming = reconnectToken !== null;
+      if (currentState) currentState.reconnecting = resuming;
       console.log(`Retrying connection in 1 second...`);
       setTimeout(() => {
         connect(address, onConnectCallback!, onDisconnectCallback!);
       }, 1000);
     } else {
       retryCount = 0;
+      reconnectToken = null;
+      resuming = false;
+      if (currentState) currentState.reconnecting = false;
       if (onDisconnectCallback) onDisconnectCallback();
     }
   };
@@ -104,12 +144,20 @@ export function disconnect(): void {
   onConnectCallback = null;
   onDisconnectCallback = null;
   retryCount = 0;
+  reconnectToken = null;
+  resuming = false;
+  if (currentState) currentState.reconnecting = false;
+  if (localServer) {
+    localServer.close();
+    localServer = null;
+  }
   if (connectionTimeout) {
     clearTimeout(connectionTimeout);
     connectionTimeout = null;
   }
   if (ws) {
-    ws.close();
+    // Normal closure tells the server we left on purpose
+    ws.close(1000);
     ws = null;
   }
 }
@@ -119,6 +167,10 @@ export function isConnected(): boolean {
 }
 
 export function sendMessage(message: ClientMessage): void {
+  if (localServer) {
+    localServer.receive(message);
+    return;
+  }
   if (ws && ws.readyState === WebSocket.OPEN) {
     ws.send(JSON.stringify(message));
   }
@@ -129,17 +181,68 @@ export function processMessages(state: GameState): void {
   currentState = state;
 }
 
+export function startLocalSession(state: GameState, server: LocalServer): void {
+  disconnect();
+  currentState = state;
+  localServer = server;
+}
+
+export function deliverLocalMessage(message: ServerMessage): void {
+  if (currentState && localServer) {
+    handleMessage(currentState, message);
+  }
+}
+
+// Recorded messages from the replay viewer go through the same handler as live ones
+export function deliverReplayMessage(state: GameState, message: ServerMessage): void {
+  handleMessage(state, message);
+}
+
 function handleMessage(state: GameState, message: ServerMessage): void {
   switch (message.type) {
     case MessageType.JOIN_ACCEPT:
       state.playerId = message.playerId;
       state.gameId = message.gameId;
-      state.phase = ClientPhase.LOBBY_WAITING;
+      reconnectToken = message.reconnectToken;
+      previousToken = message.reconnectToken;
+      state.dictionaries = message.dictionaries;
+      state.lobbyJoinCode = message.joinCode || null;
+      state.joinError = null;
+      // A resumed game gets its chat back from the snapshot that follows
+      if (!resuming) {
+        resetChat(state);
+      }
+      if (resuming) {
+        // Phase is restored from the snapshot that follows
+        resuming = false;
+        state.reconnecting = false;
+      } else if (!state.daily) {
+        // A daily challenge starts right away, GAME_START follows
+        state.phase = ClientPhase.LOBBY_WAITING;
+      }
       break;
 
     case MessageType.JOIN_REJECT:
       console.error('Join rejected:', message.reason);
-      state.phase = ClientPhase.LOBBY_JOIN;
+      state.joinError = message.reason;
+      if (resuming || state.daily) {
+        // Seat is gone, or the challenge could not start - nothing to go back to
+        disconnect();
+        state.connected = false;
+        state.phase = ClientPhase.MAIN_MENU;
+        state.players = [];
+        break;
+      }
+      // The game got a password since the list was fetched, or came from an invite link
+      if (message.reason === JoinRejectReason.PASSWORD_REQUIRED && state.joinTarget) {
+        state.joinPassword = '';
+        state.phase = ClientPhase.JOIN_PASSWORD;
+        break;
+      }
+      // A wrong code or password can be corrected on the same screen
+      if (state.phase !== ClientPhase.JOIN_CODE && state.phase !== ClientPhase.JOIN_PASSWORD) {
+        state.phase = ClientPhase.LOBBY_JOIN;
+      }
       break;
 
     case MessageType.GAMES_LIST:
@@ -148,6 +251,7 @@ function handleMessage(state: GameState, message: ServerMessage): void {
 
     case MessageType.PLAYER_LIST:
       state.players = message.players;
+      state.spectators = message.spectators;
       state.hostId = message.hostId;
       state.isHost = message.hostId === state.playerId;
       break;
@@ -156,29 +260,37 @@ function handleMessage(state: GameState, message: ServerMessage): void {
       state.players = state.players.filter(p => p.id !== message.playerId);
       break;
 
+    case MessageType.GAME_SETTINGS:
+      state.gameSettings = message.settings;
+      break;
+
     case MessageType.GAME_START:
       state.currentTurnPlayerId = message.firstPlayerId;
       state.turnDuration = message.turnDuration;
       state.turnTimer = message.turnDuration;
       state.currentCombo = message.combo;
+      state.gameSeed = message.seed;
       state.localInput = '';
+      state.usedWords = [];
+      state.rejectedWords = [];
 
-      // Set all ready players to ALIVE and reset lives
+      // Set all ready players and bots to ALIVE and reset lives
       for (const p of state.players) {
-        if (p.state === PlayerState.READY) {
+        if (p.state === PlayerState.READY || p.botDifficulty) {
           p.state = PlayerState.ALIVE;
-          p.lives = DEFAULT_LIVES;
+          p.lives = state.gameSettings.lives;
           p.score = 0;
+          p.usedLetters = [];
         }
       }
 
       // Determine if playing or spectating
       if (state.currentTurnPlayerId === state.playerId) {
         state.phase = ClientPhase.PLAYING;
-        focusHiddenInput();
+        focusTurnInput(state);
       } else {
         state.phase = ClientPhase.SPECTATING;
-        blurHiddenInput();
+        blurTurnInput(state);
       }
       break;
 
@@ -188,6 +300,7 @@ function handleMessage(state: GameState, message: ServerMessage): void {
 
     case MessageType.TURN_START:
       state.currentTurnPlayerId = message.playerId;
+      state.turnDuration = message.duration;
       state.turnTimer = message.duration;
 
       // Switch between playing and spectating
@@ -196,14 +309,14 @@ function handleMessage(state: GameState, message: ServerMessage): void {
         if (local.state === PlayerState.ELIMINATED) {
           // Eliminated players always spectate
           state.phase = ClientPhase.SPECTATING;
-          blurHiddenInput();
+          blurTurnInput(state);
         } else if (local.state === PlayerState.ALIVE) {
           if (message.playerId === state.playerId) {
             state.phase = ClientPhase.PLAYING;
-            focusHiddenInput();
+            focusTurnInput(state);
           } else {
             state.phase = ClientPhase.SPECTATING;
-            blurHiddenInput();
+            blurTurnInput(state);
           }
         }
       }
@@ -227,6 +340,10 @@ function handleMessage(state: GameState, message: ServerMessage): void {
         updatedPlayer.lives = message.lives;
         updatedPlayer.score = message.score;
         updatedPlayer.state = message.state;
+        updatedPlayer.usedLetters = message.usedLetters;
+      } else {
+        // Update for a player we don't know about - we've drifted
+        requestSnapshot();
       }
       break;
 
@@ -238,33 +355,94 @@ function handleMessage(state: GameState, message: ServerMessage): void {
       // If local player was eliminated, switch to spectator mode
       if (message.playerId === state.playerId) {
         state.phase = ClientPhase.SPECTATING;
-        blurHiddenInput();
+        blurTurnInput(state);
       }
       break;
 
     case MessageType.GAME_OVER:
-      state.phase = ClientPhase.GAME_OVER;
+      // A daily challenge goes to its results screen, which waits for DAILY_RESULT
+      state.phase = state.daily ? ClientPhase.DAILY_RESULTS : ClientPhase.GAME_OVER;
       state.failedCombos = message.failedCombos || [];
+      state.replayId = message.replayId || null;
+      state.history = message.history || [];
       state.showFailedCombos = false;
-      blurHiddenInput();
+      state.showHistory = false;
+      state.showRejectedWords = false;
+      blurTurnInput(state);
+      break;
+
+    case MessageType.GAME_SNAPSHOT:
+      applySnapshot(state, message);
+      break;
+
+    case MessageType.STATS:
+      state.stats = message.stats;
+      break;
+
+    case MessageType.LEADERBOARD:
+      // Ignore answers for a board the player has already moved away from
+      if (message.category === state.leaderboardCategory && message.window === state.leaderboardWindow) {
+        state.leaderboard = message.entries;
+      }
+      break;
+
+    case MessageType.DAILY_RESULT:
+      state.dailyResult = {
+        date: message.date,
+        score: message.score,
+        rank: message.rank,
+        entries: message.entries,
+      };
+      state.phase = ClientPhase.DAILY_RESULTS;
       break;
 
     case MessageType.PONG:
       // Ping/pong for keepalive
       break;
 
+    case MessageType.KICKED:
+      // The server has already taken us out of the game
+      disconnect();
+      state.connected = false;
+      state.phase = ClientPhase.MAIN_MENU;
+      state.players = [];
+      state.menuNotice = message.banned
+        ? 'Looja eemaldas sind mängust ja keelas tagasi tulla'
+        : 'Looja eemaldas sind mängust';
+      break;
+
+    case MessageType.CHAT:
+      receiveChat(state, message.entry);
+      break;
+
     case MessageType.ERROR:
       console.error('Server error:', message.message);
       break;
   }
 }
 
+// The hidden input brings up the keyboard on mobile. On our own turn it is for the word,
+// otherwise an open chat keeps it.
+function focusTurnInput(state: GameState): void {
+  state.chatOpen = false;
+  focusHiddenInput();
+}
+
+function blurTurnInput(state: GameState): void {
+  if (!state.chatOpen) {
+    blurHiddenInput();
+  }
+}
+
 function handleTurnResult(
   state: GameState,
-  message: { playerId: string; result: TurnResult; nextPlayerId: string; newCombo: string; remainingTime?: number }
+  message: { playerId: string; result: TurnResult; nextPlayerId: string; newCombo: string; word?: string; remainingTime?: number }
 ): void {
   switch (message.result) {
     case TurnResult.CORRECT:
+      if (message.word) {
+        state.usedWords.push(message.word.toUpperCase());
+      }
       state.correctAnswerFlash = true;
       state.correctAnswerOpacity = 0.15;
       state.pendingCorrectSound = true;
@@ -273,6 +451,9 @@ function handleTurnResult(
 
     case TurnResult.WRONG:
     case TurnResult.ALREADY_USED:
+      if (message.result === TurnResult.WRONG && message.playerId === state.playerId && message.word) {
+        trackRejectedWord(state, message.word);
+      }
       state.wrongAnswerFlash = true;
       state.wrongAnswerOpacity = 0;
       state.wrongAnswerOpacityUp = true;
@@ -299,6 +480,10 @@ function handleTurnResult(
       break;
   }
 
+  if (!state.players.some(p => p.id === message.nextPlayerId)) {
+    requestSnapshot();
+  }
+
   // Only update turn state when the turn actually changes (CORRECT or TIMEOUT)
   state.currentCombo = message.newCombo;
   state.currentTurnPlayerId = message.nextPlayerId;
@@ -310,33 +495,112 @@ function handleTurnResult(
     if (localPlayer.state === PlayerState.ELIMINATED) {
       // Eliminated players always spectate
       state.phase = ClientPhase.SPECTATING;
-      blurHiddenInput();
+      blurTurnInput(state);
     } else if (localPlayer.state === PlayerState.ALIVE) {
       if (message.nextPlayerId === state.playerId) {
         state.phase = ClientPhase.PLAYING;
-        focusHiddenInput();
+        focusTurnInput(state);
       } else {
         state.phase = ClientPhase.SPECTATING;
-        blurHiddenInput();
+        blurTurnInput(state);
       }
     }
   }
 }
 
+// Same checks the server makes before it accepts a report - only words that
+// failed the dictionary lookup alone, and never in offline practice
+function trackRejectedWord(state: GameState, word: string): void {
+  const upperWord = word.toUpperCase();
+  if (state.practice) return;
+  if (upperWord.length < state.gameSettings.minWordLength) return;
+  if (!upperWord.includes(state.currentCombo)) return;
+  if (state.rejectedWords.some(r => r.word === upperWord)) return;
+
+  state.rejectedWords.push({ word: upperWord, combo: state.currentCombo, reported: false });
+  if (state.rejectedWords.length > MAX_REJECTED_WORDS) {
+    state.rejectedWords.shift();
+  }
+}
+
+// Replace everything we know about the game with the server's view in one step,
+// so incremental updates we may have missed can't leave stale pieces behind
+function applySnapshot(state: GameState, message: GameSnapshotMessage): void {
+  const local = message.players.find(p => p.id === state.playerId);
+
+  const snapshot: Partial<GameState> = {
+    gameName: message.gameName,
+    players: message.players,
+    spectators: message.spectators,
+    hostId: message.hostId,
+    isHost: message.hostId === state.playerId,
+    gameSettings: message.settings,
+    currentCombo: message.combo,
+    currentTurnPlayerId: message.currentTurnPlayerId,
+    turnDuration: message.turnDuration,
+    turnTimer: message.remainingTime,
+    usedWords: message.usedWords,
+    gameSeed: message.seed ?? state.gameSeed,
+    localInput: local?.currentInput || '',
+    chatLog: message.chat || [],
+  };
+  Object.assign(state, snapshot);
+
+  switch (message.phase) {
+    case GamePhase.LOBBY:
+      state.phase = ClientPhase.LOBBY_WAITING;
+      blurTurnInput(state);
+      break;
+
+    case GamePhase.PLAYING:
+      if (isMyTurn(state)) {
+        state.phase = ClientPhase.PLAYING;
+        focusTurnInput(state);
+      } else {
+        state.phase = ClientPhase.SPECTATING;
+        blurTurnInput(state);
+      }
+      break;
+
+    case GamePhase.GAME_OVER:
+      state.failedCombos = message.failedCombos || [];
+      state.history = message.history || [];
+      // Players who already went back to the waiting room stay there
+      if (state.phase !== ClientPhase.LOBBY_WAITING) {
+        state.phase = ClientPhase.GAME_OVER;
+      }
+      blurTurnInput(state);
+      break;
+  }
+}
+
 // API functions
-export function createGame(hostName: string, gameName: string): void {
+export function createGame(hostName: string, gameName: string, isPrivate: boolean, password: string): void {
   sendMessage({
     type: MessageType.CREATE_GAME,
     hostName,
     gameName,
+    isPrivate,
+    password: password || undefined,
   });
 }
 
-export function joinGame(gameId: string, playerName: string): void {
+export function joinGame(gameId: string, playerName: string, password?: string): void {
   sendMessage({
     type: MessageType.JOIN_REQUEST,
     gameId,
     playerName,
+    password,
+    previousToken: previousToken || undefined,
+  });
+}
+
+export function joinGameByCode(code: string, playerName: string): void {
+  sendMessage({
+    type: MessageType.JOIN_BY_CODE,
+    code,
+    playerName,
+    previousToken: previousToken || undefined,
   });
 }
 
@@ -353,10 +617,53 @@ export function setReady(ready: boolean): void {
   });
 }
 
-export function startGame(): void {
+export function updateSettings(settings: GameSettings): void {
+  sendMessage({
+    type: MessageType.GAME_SETTINGS,
+    settings,
+  });
+}
+
+export function addBot(difficulty: BotDifficulty): void {
+  sendMessage({
+    type: MessageType.ADD_BOT,
+    difficulty,
+  });
+}
+
+export function kickPlayer(playerId: string): void {
+  sendMessage({
+    type: MessageType.KICK_PLAYER,
+    playerId,
+  });
+}
+
+export function banPlayer(playerId: string): void {
+  sendMessage({
+    type: MessageType.BAN_PLAYER,
+    playerId,
+  });
+}
+
+export function transferHost(playerId: string): void {
+  sendMessage({
+    type: MessageType.TRANSFER_HOST,
+    playerId,
+  });
+}
+
+export function removeBot(playerId: string): void {
+  sendMessage({
+    type: MessageType.REMOVE_BOT,
+    playerId,
+  });
+}
+
+export function startGame(settings?: GameSettings): void {
   console.log('network.startGame() called');
   sendMessage({
     type: MessageType.START_GAME_REQUEST,
+    settings,
   });
 }
 
@@ -374,6 +681,48 @@ export function submitWord(word: string): void {
   });
 }
 
+export function requestSnapshot(): void {
+  sendMessage({
+    type: MessageType.REQUEST_SNAPSHOT,
+  });
+}
+
+export function getStats(playerName: string): void {
+  sendMessage({
+    type: MessageType.GET_STATS,
+    playerName,
+  });
+}
+
+export function reportWord(word: string): void {
+  sendMessage({
+    type: MessageType.REPORT_WORD,
+    word,
+  });
+}
+
+export function startDaily(playerName: string): void {
+  sendMessage({
+    type: MessageType.START_DAILY,
+    playerName,
+  });
+}
+
+export function getLeaderboard(category: LeaderboardCategory, window: LeaderboardWindow): void {
+  sendMessage({
+    type: MessageType.GET_LEADERBOARD,
+    category,
+    window,
+  });
+}
+
+export function sendChat(text: string): void {
+  sendMessage({
+    type: MessageType.CHAT,
+    text,
+  });
+}
+
 export function ping(): void {
   sendMessage({
     type: MessageType.PING,
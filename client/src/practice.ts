@@ -0,0 +1,265 @@
+import {
+  MessageType,
+  ClientMessage,
+  ServerMessage,
+  TurnResult,
+  TurnHistoryEntry,
+  PlayerState,
+  DEFAULT_GAME_SETTINGS,
+} from './protocol';
+import { GameState, ClientPhase, resetGameState } from './state';
+import * as network from './network';
+import { Random, createRandom, randomSeed, shuffle } from './random';
+import { parseComboList, parseWordList, validateWord } from '@shared/word-lists';
+import wordListUrl from '../../server/data/sonad4.txt?url';
+import comboListUrl from '../../server/data/kombinatsioonid4.txt?url';
+
+// Offline practice: a single player against the clock, with this module standing in for the server.
+// It answers the same messages the server would, so the regular game screens work unchanged.
+
+const PRACTICE_PLAYER_ID = 'practice';
+const PERSONAL_BEST_KEY = 'sonaMang.practiceBest';
+
+let wordSet: Set<string> | null = null;
+let comboList: string[] = [];
+
+async function loadLists(): Promise<boolean> {
+  if (wordSet) return true;
+
+  try {
+    const [words, combos] = await Promise.all([
+      fetch(wordListUrl).then(r => r.text()),
+      fetch(comboListUrl).then(r => r.text()),
+    ]);
+    wordSet = new Set(parseWordList(words));
+    comboList = parseComboList(combos).combos;
+    console.log(`Loaded ${wordSet.size} words and ${comboList.length} combos for practice`);
+    return comboList.length > 0;
+  } catch (e) {
+    console.error('Failed to load word lists:', e);
+    wordSet = null;
+    return false;
+  }
+}
+
+function generateNewCombo(random: Random): string {
+  return comboList[Math.floor(random() * comboList.length)];
+}
+
+function getExampleWords(combo: string, count: number, random: Random): string[] {
+  const matching: string[] = [];
+  for (const word of wordSet || []) {
+    if (word.includes(combo) && word.length >= 4 && word.length <= 8) {
+      matching.push(word);
+    }
+  }
+  shuffle(matching, random);
+  return matching.slice(0, count);
+}
+
+export function loadPersonalBest(): number {
+  const stored = Number(localStorage.getItem(PERSONAL_BEST_KEY));
+  return Number.isFinite(stored) ? stored : 0;
+}
+
+function savePersonalBest(score: number): void {
+  try {
+    localStorage.setItem(PERSONAL_BEST_KEY, String(score));
+  } catch (e) {
+    console.error('Failed to save personal best:', e);
+  }
+}
+
+class PracticeSession implements network.LocalServer {
+  private settings = { ...DEFAULT_GAME_SETTINGS };
+  private combo = '';
+  private usedWords: Set<string> = new Set();
+  private failedCombos: Set<string> = new Set();
+  private history: TurnHistoryEntry[] = [];
+  private wrongAttempts: string[] = [];
+  private lives = this.settings.lives;
+  private score = 0;
+  private turnStartTime = 0;
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+  private seed = randomSeed();
+  private random: Random = createRandom(this.seed);
+
+  constructor(private state: GameState) {}
+
+  start(): void {
+    this.combo = generateNewCombo(this.random);
+    network.deliverLocalMessage({
+      type: MessageType.GAME_START,
+      firstPlayerId: PRACTICE_PLAYER_ID,
+      turnDuration: this.settings.turnDuration,
+      combo: this.combo,
+      seed: this.seed,
+    });
+    this.startTurn();
+  }
+
+  receive(message: ClientMessage): void {
+    if (message.type === MessageType.TURN_SUBMIT) {
+      this.handleSubmit(message.word);
+    }
+  }
+
+  close(): void {
+    this.stopTimer();
+    this.state.practice = false;
+  }
+
+  private send(message: ServerMessage): void {
+    network.deliverLocalMessage(message);
+  }
+
+  private startTurn(): void {
+    this.stopTimer();
+    this.turnStartTime = Date.now();
+    this.wrongAttempts = [];
+    this.send({
+      type: MessageType.TURN_START,
+      playerId: PRACTICE_PLAYER_ID,
+      duration: this.settings.turnDuration,
+    });
+
+    this.tickInterval = setInterval(() => {
+      if (this.getRemainingTime() <= 0) {
+        this.handleTimeout();
+      }
+    }, 100);
+  }
+
+  private stopTimer(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  private getRemainingTime(): number {
+    const elapsed = (Date.now() - this.turnStartTime) / 1000;
+    return Math.max(0, this.settings.turnDuration - elapsed);
+  }
+
+  private handleSubmit(word: string): void {
+    const result = validateWord(wordSet || new Set(), word, this.combo, this.usedWords, this.settings.minWordLength);
+
+    if (result !== TurnResult.CORRECT) {
+      this.wrongAttempts.push(word.toUpperCase());
+      this.send({
+        type: MessageType.TURN_RESULT,
+        playerId: PRACTICE_PLAYER_ID,
+        result,
+        nextPlayerId: PRACTICE_PLAYER_ID,
+        newCombo: this.combo,
+        word,
+        remainingTime: this.getRemainingTime(),
+      });
+      return;
+    }
+
+    this.score++;
+    this.usedWords.add(word.toUpperCase());
+    this.endTurn(result, word);
+  }
+
+  private handleTimeout(): void {
+    this.stopTimer();
+    this.failedCombos.add(this.combo);
+    this.lives--;
+    this.endTurn(TurnResult.TIMEOUT, '');
+  }
+
+  private endTurn(result: TurnResult, word: string): void {
+    this.stopTimer();
+    this.history.push({
+      combo: this.combo,
+      playerName: this.state.playerName,
+      word: result === TurnResult.CORRECT ? word.toUpperCase() : null,
+      timeMs: Date.now() - this.turnStartTime,
+      wrongAttempts: this.wrongAttempts,
+    });
+
+    const alive = this.lives > 0;
+    this.combo = generateNewCombo(this.random);
+
+    this.send({
+      type: MessageType.PLAYER_UPDATE,
+      playerId: PRACTICE_PLAYER_ID,
+      lives: this.lives,
+      score: this.score,
+      state: alive ? PlayerState.ALIVE : PlayerState.ELIMINATED,
+      usedLetters: [],
+    });
+    this.send({
+      type: MessageType.TURN_RESULT,
+      playerId: PRACTICE_PLAYER_ID,
+      result,
+      nextPlayerId: PRACTICE_PLAYER_ID,
+      newCombo: this.combo,
+      word,
+    });
+
+    if (alive) {
+      this.startTurn();
+    } else {
+      this.endGame();
+    }
+  }
+
+  private endGame(): void {
+    const best = loadPersonalBest();
+    this.state.practiceNewBest = this.score > best;
+    if (this.state.practiceNewBest) {
+      savePersonalBest(this.score);
+    }
+    this.state.practiceBest = Math.max(best, this.score);
+
+    this.send({
+      type: MessageType.GAME_OVER,
+      winnerId: null,
+      failedCombos: Array.from(this.failedCombos).map(combo => ({
+        combo,
+        exampleWords: getExampleWords(combo, 3, this.random),
+      })),
+      history: this.history,
+    });
+  }
+}
+
+export async function startPractice(state: GameState): Promise<void> {
+  network.disconnect();
+  state.practice = true;
+  state.daily = false;
+  state.phase = ClientPhase.CONNECTING;
+
+  if (!(await loadLists())) {
+    state.practice = false;
+    state.phase = ClientPhase.MAIN_MENU;
+    return;
+  }
+
+  resetGameState(state);
+  state.playerId = PRACTICE_PLAYER_ID;
+  state.gameId = '';
+  state.gameName = 'Harjutus';
+  state.isHost = true;
+  state.hostId = PRACTICE_PLAYER_ID;
+  state.gameSettings = { ...DEFAULT_GAME_SETTINGS };
+  state.spectators = [];
+  state.players = [{
+    id: PRACTICE_PLAYER_ID,
+    name: state.playerName,
+    state: PlayerState.READY,
+    lives: state.gameSettings.lives,
+    score: 0,
+    isHost: true,
+  }];
+  state.practiceBest = loadPersonalBest();
+  state.practiceNewBest = false;
+
+  const session = new PracticeSession(state);
+  network.startLocalSession(state, session);
+  session.start();
+}
@@ -5,8 +5,25 @@ import {
   getCurrentTurnPlayer,
   isMyTurn,
   getReadyCount,
+  isLocalSpectator,
 } from './state';
-import { PlayerState, MIN_PLAYERS, MAX_PLAYERS, GameInfo } from './protocol';
+import { isChatAvailable } from './chat';
+import {
+  PlayerState,
+  GamePhase,
+  MIN_PLAYERS,
+  GameInfo,
+  GameSettings,
+  DictionaryInfo,
+  TimerAcceleration,
+  DifficultyCurve,
+  BotDifficulty,
+  LeaderboardCategory,
+  LeaderboardWindow,
+  JoinRejectReason,
+  ALPHABET_BONUS_LETTERS,
+  JOIN_CODE_LENGTH,
+} from './protocol';
 
 // Constants
 const ENABLE_COMBO_PULSING = true;
@@ -515,6 +532,14 @@ export function render(state: GameState): void {
       renderLobbyJoin(state);
       break;
 
+    case ClientPhase.JOIN_CODE:
+      renderJoinCode(state);
+      break;
+
+    case ClientPhase.JOIN_PASSWORD:
+      renderJoinPassword(state);
+      break;
+
     case ClientPhase.LOBBY_WAITING:
       renderLobbyWaiting(state);
       break;
@@ -533,7 +558,199 @@ export function render(state: GameState): void {
     case ClientPhase.GAME_OVER:
       renderGameOver(state);
       break;
+
+    case ClientPhase.STATS:
+      renderStats(state);
+      break;
+
+    case ClientPhase.LEADERBOARD:
+      renderLeaderboard(state);
+      break;
+
+    case ClientPhase.DAILY_RESULTS:
+      renderDailyResults(state);
+      break;
+  }
+
+  drawChat(state);
+
+  if (state.replay) {
+    drawReplayControls(state);
+  }
+
+  if (state.reconnecting) {
+    drawReconnectingBanner();
+  }
+}
+
+function formatReplayTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Replay controls along the bottom - positions must match REPLAY_BUTTON_DEFS in input.ts
+function drawReplayControls(state: GameState): void {
+  const replay = state.replay;
+  if (!replay || replay.entries.length === 0) return;
+
+  drawText('KORDUS', x(590), y(20), '#b4b4b4', fontSize(16), true);
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, y(432), scale.windowWidth, scale.windowHeight - y(432));
+
+  const pauseHighlight = state.buttonHighlightOpacity?.['pause'] || 0;
+  drawButton(replay.paused ? '>' : '||', 10, 440, 60, 32, pauseHighlight);
+
+  // Seek bar
+  const progress = replay.durationMs > 0 ? replay.position / replay.durationMs : 0;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+  ctx.fillRect(x(85), y(453), x(380), y(6));
+  ctx.fillStyle = '#ffff00';
+  ctx.fillRect(x(85), y(453), x(380) * progress, y(6));
+
+  const timeText = `${formatReplayTime(replay.position)} / ${formatReplayTime(replay.durationMs)}`;
+  drawText(timeText, x(475), y(448), '#c8c8c8', fontSize(14), false);
+
+  const closeHighlight = state.buttonHighlightOpacity?.['close'] || 0;
+  drawButton('Sulge', REFERENCE_WIDTH - 70, 440, 60, 32, closeHighlight);
+}
+
+// Chat button, panel and overlay - positions must match CHAT_BUTTON and CHAT_PANEL in input.ts
+function drawChat(state: GameState): void {
+  if (!isChatAvailable(state)) return;
+  if (state.showFailedCombos || state.showHistory || state.showRejectedWords) return;
+
+  if (state.phase === ClientPhase.SPECTATING) {
+    drawChatOverlay(state);
+  } else if (state.chatOpen) {
+    drawChatPanel(state);
+  }
+
+  const chatText = state.chatUnread > 0 ? `Vestlus (${state.chatUnread})` : 'Vestlus';
+  const chatHighlight = state.buttonHighlightOpacity?.['chat'] || 0;
+  drawButton(chatText, REFERENCE_WIDTH - 130, 440, 120, 32, chatHighlight);
+}
+
+// Splits text into lines no wider than maxWidth in the current font, breaking long words where they run out
+function wrapText(text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) {
+      lines.push(line);
+    }
+    line = '';
+    for (const char of word) {
+      if (line && ctx.measureText(line + char).width > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+// The end of the text that fits, so the input line shows what is being typed
+function fitTextEnd(text: string, maxWidth: number): string {
+  let start = 0;
+  while (start < text.length && ctx.measureText(text.slice(start)).width > maxWidth) {
+    start++;
+  }
+  return text.slice(start);
+}
+
+function drawChatInput(state: GameState, posX: number, posY: number, maxWidth: number, size: number): void {
+  ctx.font = `${size}px sans-serif`;
+  if (state.chatInput.length === 0) {
+    drawText('Kirjuta sõnum, Enter saadab', posX, posY, '#787878', size, false);
+    return;
   }
+  const cursor = Math.floor(state.animTime * 2) % 2 === 0 ? '_' : '';
+  const shown = fitTextEnd(state.chatInput, maxWidth - ctx.measureText('> _').width);
+  drawText(`> ${shown}${cursor}`, posX, posY, '#ffff00', size, false);
+}
+
+// Over the waiting room and the game over screen, newest messages at the bottom
+function drawChatPanel(state: GameState): void {
+  ctx.fillStyle = 'rgba(6, 5, 12, 0.95)';
+  ctx.fillRect(x(20), y(150), x(600), y(278));
+  ctx.strokeStyle = 'rgba(80, 50, 120, 0.6)';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x(20), y(150), x(600), y(278));
+
+  const size = fontSize(15);
+  const lineHeight = y(19);
+  const maxWidth = x(570);
+  const maxLines = 11;
+
+  if (state.chatLog.length === 0) {
+    drawText('Sõnumeid veel pole', scale.windowWidth / 2, y(260), '#787878', size, true);
+  }
+
+  ctx.font = `${size}px sans-serif`;
+  const lines: [string, string][] = [];
+  for (let i = state.chatLog.length - 1; i >= 0 && lines.length < maxLines; i--) {
+    const entry = state.chatLog[i];
+    const color = entry.playerId === state.playerId ? '#ffff00' : '#c8c8c8';
+    const wrapped = wrapText(`${entry.playerName}: ${entry.text}`, maxWidth);
+    for (let j = wrapped.length - 1; j >= 0 && lines.length < maxLines; j--) {
+      lines.unshift([wrapped[j], color]);
+    }
+  }
+
+  let yPos = y(380) - lines.length * lineHeight;
+  for (const [line, color] of lines) {
+    drawText(line, x(35), yPos, color, size, false);
+    yPos += lineHeight;
+  }
+
+  drawChatInput(state, x(35), y(398), maxWidth, fontSize(16));
+}
+
+// Latest messages over the bottom of the spectator view, fading out a while after the last one
+function drawChatOverlay(state: GameState): void {
+  const remaining = state.chatOverlayUntil - state.animTime;
+  const opacity = state.chatOpen ? 1 : Math.min(1, remaining);
+  const messages = state.chatLog.slice(-3);
+
+  const size = fontSize(14);
+  const lineHeight = y(18);
+  const maxWidth = x(480);
+  const inputY = y(450);
+  const messagesBottom = state.chatOpen ? inputY : inputY + lineHeight;
+
+  if (opacity > 0 && messages.length > 0) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${0.5 * opacity})`;
+    ctx.fillRect(x(5), messagesBottom - messages.length * lineHeight - y(4), x(490), messages.length * lineHeight + y(4));
+
+    ctx.font = `${size}px sans-serif`;
+    let yPos = messagesBottom - messages.length * lineHeight;
+    for (const entry of messages) {
+      const color = entry.playerId === state.playerId ? `rgba(255, 255, 0, ${opacity})` : `rgba(200, 200, 200, ${opacity})`;
+      const [line, ...rest] = wrapText(`${entry.playerName}: ${entry.text}`, maxWidth);
+      drawText(rest.length > 0 ? `${line}...` : line, x(10), yPos, color, size, false);
+      yPos += lineHeight;
+    }
+  }
+
+  if (state.chatOpen) {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(x(5), inputY - y(2), x(490), lineHeight + y(4));
+    drawChatInput(state, x(10), inputY, maxWidth, size);
+  }
+}
+
+function drawReconnectingBanner(): void {
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, scale.windowHeight - y(40), scale.windowWidth, y(40));
+  drawText('Ühendan uuesti...', scale.windowWidth / 2, scale.windowHeight - y(32), '#ffff00', fontSize(18), true);
 }
 
 function renderMainMenu(state: GameState): void {
@@ -547,8 +764,8 @@ function renderMainMenu(state: GameState): void {
   drawText('SÕNA MÄNG', centerX, y(80), '#ffffff', fontSize(60), true);
 
   // Menu options
-  const menuItems = ['ALUSTA', 'LIITU'];
-  const menuY = [y(200), y(260)];
+  const menuItems = ['ALUSTA', 'LIITU', 'VÄLJAKUTSE', 'HARJUTA', 'STATISTIKA'];
+  const menuY = [y(175), y(230), y(285), y(340), y(395)];
   const textSize = fontSize(32);
   const boxPaddingX = x(16);
   const boxPaddingY = y(6);
@@ -597,6 +814,10 @@ function renderMainMenu(state: GameState): void {
   const infoWidth = infoSize * scale.scaleY / scale.scaleX;
   const infoMargin = isMobile ? 25 : 10;
   drawButton('?', REFERENCE_WIDTH - infoMargin - infoWidth, REFERENCE_HEIGHT - 55, infoWidth, infoSize, infoHighlight);
+
+  if (state.menuNotice) {
+    drawText(state.menuNotice, centerX, y(445), '#ff6464', fontSize(16), true);
+  }
 }
 
 function renderInfo(state: GameState): void {
@@ -636,6 +857,13 @@ function renderInfo(state: GameState): void {
   }
 }
 
+const CONNECT_TARGET_TITLES: { [phase: string]: string } = {
+  [ClientPhase.LOBBY_CREATE]: 'LOO MÄNG',
+  [ClientPhase.LOBBY_JOIN]: 'LIITU MÄNGUGA',
+  [ClientPhase.STATS]: 'STATISTIKA',
+  [ClientPhase.DAILY_RESULTS]: 'PÄEVA VÄLJAKUTSE',
+};
+
 function renderServerConnect(state: GameState): void {
   ctx.fillStyle = BG_COLOR;
   ctx.fillRect(0, 0, scale.windowWidth, scale.windowHeight);
@@ -646,7 +874,7 @@ function renderServerConnect(state: GameState): void {
   // Back button
   drawBackButton(state);
 
-  const title = state.joiningGame ? 'LIITU MÄNGUGA' : 'LOO MÄNG';
+  const title = CONNECT_TARGET_TITLES[state.connectTarget] || 'LOO MÄNG';
   drawText(title, centerX, y(80), '#ffffff', fontSize(40), true);
 
   // Player name
@@ -669,6 +897,12 @@ function renderConnecting(state: GameState): void {
 
   const centerX = scale.windowWidth / 2;
 
+  // Offline practice and replays load files instead of connecting
+  if (state.practice || state.replay) {
+    drawText('LAADIMINE...', centerX, y(200), '#ffffff', fontSize(40), true);
+    return;
+  }
+
   drawText('ÜHENDAMINE...', centerX, y(200), '#ffffff', fontSize(40), true);
   drawText(state.serverAddress, centerX, y(260), '#b4b4b4', fontSize(24), true);
 }
@@ -685,17 +919,28 @@ function renderLobbyCreate(state: GameState): void {
 
   drawText('LOO MÄNG', centerX, y(80), '#ffffff', fontSize(40), true);
 
-  // Game name
-  drawText('Mängu nimi:', centerX, y(160), '#ffffff', fontSize(20), true);
-
+  // Game name - the cursor shows which field is typed into
+  drawText('Mängu nimi:', centerX, y(130), '#ffffff', fontSize(20), true);
+  const nameDisplay = state.gameName + (state.inputFocus === 0 ? '|' : '');
+  drawText(nameDisplay, centerX, y(158), '#ffff00', fontSize(24), true);
 
-  const nameDisplay = state.gameName + '|';
-  drawText(nameDisplay, centerX, y(195), '#ffff00', fontSize(24), true);
+  // Password, private games have their code instead
+  if (!state.createPrivate) {
+    drawText('Salasõna (valikuline):', centerX, y(200), '#ffffff', fontSize(20), true);
+    const passwordDisplay = state.gamePassword + (state.inputFocus === 1 ? '|' : '');
+    drawText(passwordDisplay, centerX, y(228), '#ffff00', fontSize(24), true);
+  }
 
   // Create button
   const createHighlight = state.buttonHighlightOpacity?.['create'] || 0;
-  drawButton('Loo', REFERENCE_WIDTH / 2 - 60, 260, 120, 40, createHighlight);
+  drawButton('Loo', REFERENCE_WIDTH / 2 - 60, 275, 120, 40, createHighlight);
 
+  // Private toggle
+  const privateHighlight = state.buttonHighlightOpacity?.['private'] || 0;
+  drawButton(`Privaatne: ${state.createPrivate ? 'jah' : 'ei'}`, REFERENCE_WIDTH / 2 - 80, 330, 160, 40, privateHighlight);
+  if (state.createPrivate) {
+    drawText('Mängu ei näidata nimekirjas, sõbrad liituvad koodiga', centerX, y(385), '#787878', fontSize(16), true);
+  }
 }
 
 function renderLobbyJoin(state: GameState): void {
@@ -712,6 +957,10 @@ function renderLobbyJoin(state: GameState): void {
   const refreshHighlight = state.buttonHighlightOpacity?.['refresh'] || 0;
   drawButton('Uuenda', REFERENCE_WIDTH - 90, 10, 80, 35, refreshHighlight);
 
+  // Join a private game by code
+  const codeHighlight = state.buttonHighlightOpacity?.['code'] || 0;
+  drawButton('Kood', REFERENCE_WIDTH - 180, 10, 80, 35, codeHighlight);
+
   drawText('LIITU MÄNGUGA', centerX, y(80), '#ffffff', fontSize(40), true);
 
   // Games list
@@ -725,14 +974,114 @@ function renderLobbyJoin(state: GameState): void {
 
     let yPos = y(190);
     gamesList.forEach((game: GameInfo) => {
-      const gameText = `${game.name} (${game.playerCount}/${game.maxPlayers}) - ${game.hostName}`;
+      const inProgress = game.phase === GamePhase.PLAYING ? ' [vaata]' : '';
+      const gameText = `${game.name} (${game.playerCount}/${game.maxPlayers}) - ${game.hostName}, ${game.dictionary.name}${inProgress}`;
       drawText(gameText, centerX, yPos, '#ffff00', fontSize(20), true);
+
+      // Lock in front of games that need a password
+      if (game.hasPassword) {
+        const textWidth = ctx.measureText(gameText).width;
+        const lockSize = fontSize(16);
+        drawLockIcon(centerX - textWidth / 2 - lockSize - x(8), yPos + fontSize(2), lockSize, '#ffff00');
+      }
       yPos += y(32);
     });
   }
 
+  if (state.joinError) {
+    drawText(getJoinErrorText(state.joinError), centerX, y(440), '#ff6464', fontSize(18), true);
+  }
+}
+
+// Padlock with its top-left corner at posX, posY (screen pixels)
+function drawLockIcon(posX: number, posY: number, size: number, color: string): void {
+  const bodyHeight = size * 0.55;
+  const bodyY = posY + size - bodyHeight;
+
+  // Shackle
+  ctx.strokeStyle = color;
+  ctx.lineWidth = Math.max(1.5, size * 0.12);
+  ctx.beginPath();
+  ctx.arc(posX + size / 2, bodyY, size * 0.28, Math.PI, 0);
+  ctx.stroke();
+
+  // Body
+  ctx.fillStyle = color;
+  ctx.fillRect(posX + size * 0.1, bodyY, size * 0.8, bodyHeight);
+}
+
+// Texts for the JOIN_REJECT reasons the player can do something about
+const JOIN_REJECT_TEXTS: { [reason: string]: string } = {
+  [JoinRejectReason.WRONG_CODE]: 'Vale kood',
+  [JoinRejectReason.PASSWORD_REQUIRED]: 'Mäng vajab salasõna',
+  [JoinRejectReason.WRONG_PASSWORD]: 'Vale salasõna',
+  [JoinRejectReason.BANNED]: 'Looja on sind sellest mängust keelanud',
+  [JoinRejectReason.TOO_MANY_ATTEMPTS]: 'Liiga palju katseid, proovi hiljem uuesti',
+};
+
+function getJoinErrorText(reason: string): string {
+  return JOIN_REJECT_TEXTS[reason] || 'Liitumine ebaõnnestus';
 }
 
+function renderJoinCode(state: GameState): void {
+  ctx.fillStyle = BG_COLOR;
+  ctx.fillRect(0, 0, scale.windowWidth, scale.windowHeight);
+  drawVignette();
+
+  const centerX = scale.windowWidth / 2;
+
+  // Back button
+  drawBackButton(state);
+
+  drawText('LIITU KOODIGA', centerX, y(80), '#ffffff', fontSize(40), true);
+
+  drawText('Mängu kood:', centerX, y(160), '#ffffff', fontSize(20), true);
+  const codeDisplay = state.joinCodeInput.padEnd(JOIN_CODE_LENGTH, '_').split('').join(' ');
+  drawText(codeDisplay, centerX, y(190), '#ffff00', fontSize(32), true);
+
+  // Join button
+  const joinHighlight = state.buttonHighlightOpacity?.['join'] || 0;
+  drawButton('Liitu', REFERENCE_WIDTH / 2 - 60, 260, 120, 40, joinHighlight);
+
+  if (state.joinError) {
+    drawText(getJoinErrorText(state.joinError), centerX, y(325), '#ff6464', fontSize(18), true);
+  }
+}
+
+function renderJoinPassword(state: GameState): void {
+  ctx.fillStyle = BG_COLOR;
+  ctx.fillRect(0, 0, scale.windowWidth, scale.windowHeight);
+  drawVignette();
+
+  const centerX = scale.windowWidth / 2;
+
+  // Back button
+  drawBackButton(state);
+
+  drawText('SALASÕNA', centerX, y(80), '#ffffff', fontSize(40), true);
+  if (state.joinTarget?.name) {
+    drawText(state.joinTarget.name, centerX, y(125), '#b4b4b4', fontSize(20), true);
+  }
+
+  drawText('Salasõna:', centerX, y(160), '#ffffff', fontSize(20), true);
+  drawText(state.joinPassword + '|', centerX, y(195), '#ffff00', fontSize(24), true);
+
+  // Join button
+  const joinHighlight = state.buttonHighlightOpacity?.['join'] || 0;
+  drawButton('Liitu', REFERENCE_WIDTH / 2 - 60, 260, 120, 40, joinHighlight);
+
+  if (state.joinError) {
+    drawText(getJoinErrorText(state.joinError), centerX, y(325), '#ff6464', fontSize(18), true);
+  }
+}
+
+// Host actions on a selected player row - must match PLAYER_ACTIONS in input.ts
+const PLAYER_ACTION_LABELS: [string, number, string][] = [
+  ['eemalda', 225, '#ff9f64'],
+  ['keela', 290, '#ff6464'],
+  ['looja', 345, '#88ff88'],
+];
+
 function renderLobbyWaiting(state: GameState): void {
   ctx.fillStyle = BG_COLOR;
   ctx.fillRect(0, 0, scale.windowWidth, scale.windowHeight);
@@ -746,13 +1095,27 @@ function renderLobbyWaiting(state: GameState): void {
   // Title - show game name
   drawText(state.gameName, centerX, y(70), '#ffffff', fontSize(36), true);
 
+  // Private games are joined with the code
+  if (state.lobbyJoinCode) {
+    drawText(`Kood: ${state.lobbyJoinCode}`, centerX, y(110), '#ffff00', fontSize(18), true);
+  }
+
+  // Invite link - must match handleLobbyWaitingTap in input.ts
+  const inviteHighlight = state.buttonHighlightOpacity?.['invite'] || 0;
+  drawButton('Kopeeri kutse', 10, 55, 140, 32, inviteHighlight);
+  if (state.animTime < state.inviteCopiedUntil) {
+    drawText('Kopeeritud!', x(160), y(62), '#88ff88', fontSize(16), false);
+  }
+
   // Player list
-  const playerCount = `Mängijad (${state.players.length}/${MAX_PLAYERS}):`;
+  const playerCount = `Mängijad (${state.players.length}/${state.gameSettings.maxPlayers}):`;
   drawText(playerCount, x(40), y(140), '#ffffff', fontSize(22), false);
 
   let yPos = y(170);
   for (const player of state.players) {
-    const status = player.state === PlayerState.READY ? '[VALMIS]' : '[...]';
+    const status = player.botDifficulty ? `[${BOT_DIFFICULTY_LABELS[player.botDifficulty]}]`
+      : player.state === PlayerState.READY ? '[VALMIS]'
+      : player.state === PlayerState.DISCONNECTED ? '[ÜHENDUSETA]' : '[...]';
     const hostTag = player.isHost ? ' (LOOJA)' : '';
     const playerLine = `${player.name}${hostTag} ${status}`;
 
@@ -760,9 +1123,44 @@ function renderLobbyWaiting(state: GameState): void {
     const color = isLocal ? '#ffff00' : '#c8c8c8';
 
     drawText(playerLine, x(60), yPos, color, fontSize(20), false);
+
+    // Host removes bots with the x at the end of the row
+    if (state.isHost && player.botDifficulty) {
+      drawText('x', x(340), yPos, '#ff6464', fontSize(20), true);
+    }
+
+    // Actions for the player the host tapped, over the end of the row
+    if (state.isHost && player.id === state.selectedPlayerId) {
+      ctx.fillStyle = BG_COLOR;
+      ctx.fillRect(x(190), yPos - y(2), x(185), y(26));
+      for (const [label, actionX, actionColor] of PLAYER_ACTION_LABELS) {
+        drawText(label, x(actionX), yPos + y(2), actionColor, fontSize(16), true);
+      }
+    }
     yPos += y(28);
   }
 
+  // Bot controls (host only) - must match handleLobbyWaitingTap in input.ts
+  if (state.isHost) {
+    const levelHighlight = state.buttonHighlightOpacity?.['botlevel'] || 0;
+    drawButton(BOT_DIFFICULTY_LABELS[state.botDifficulty], REFERENCE_WIDTH - 210, 10, 100, 35, levelHighlight);
+    const addHighlight = state.buttonHighlightOpacity?.['addbot'] || 0;
+    drawButton('+ Robot', REFERENCE_WIDTH - 100, 10, 90, 35, addHighlight);
+  }
+
+  // Game settings (host can change them with the arrows)
+  drawSettingsPanel(state);
+
+  // Spectators waiting for a free seat
+  if (state.spectators.length > 0) {
+    const names = state.spectators.map(p => p.name).join(', ');
+    drawText(`Vaatajad: ${names}`, centerX, y(430), '#787878', fontSize(14), true);
+  }
+
+  // Seed the next game will be dealt with, whichever settings page is open
+  const seed = state.gameSettings.seed;
+  drawText(`Seeme: ${seed === null ? 'juhuslik' : seed}`, x(10), y(455), '#787878', fontSize(14), false);
+
   // Buttons - extra spacing on mobile
   const buttonSpacing = 10 + (scale.mobileBoost - 1) * 40;
   const readyText = (getLocalPlayer(state)?.state === PlayerState.READY) ? 'Oota' : 'Valmis';
@@ -783,6 +1181,97 @@ function renderLobbyWaiting(state: GameState): void {
   }
 }
 
+// seedInput is shown in place of the seed while the host types one
+function getSettingsRows(settings: GameSettings, dictionaries: DictionaryInfo[], seedInput: string | null): [string, string][] {
+  const dictionary = dictionaries.find(d => d.id === settings.dictionary);
+  return [
+    ['Elud', `${settings.lives}`],
+    ['Käigu aeg', `${settings.turnDuration} s`],
+    ['Kombo vahetus', settings.comboChangePerRound ? 'Voor' : 'Käik'],
+    ['Mängijaid max', `${settings.maxPlayers}`],
+    ['Sõna min pikkus', `${settings.minWordLength}`],
+    ['Kiirenemine', TIMER_ACCELERATION_LABELS[settings.timerAcceleration]],
+    ['Min aeg', `${settings.minTurnDuration} s`],
+    ['Tähtede boonus', settings.alphabetBonus ? 'Jah' : 'Ei'],
+    ['Sõnastik', dictionary ? dictionary.name : settings.dictionary],
+    ['Raskus', DIFFICULTY_CURVE_LABELS[settings.difficultyCurve]],
+    ['Seeme', seedInput !== null ? `${seedInput}_` : settings.seed === null ? 'Juhus' : `${settings.seed}`],
+  ];
+}
+
+const BOT_DIFFICULTY_LABELS: { [difficulty in BotDifficulty]: string } = {
+  [BotDifficulty.EASY]: 'Kerge',
+  [BotDifficulty.MEDIUM]: 'Keskmine',
+  [BotDifficulty.HARD]: 'Raske',
+};
+
+const DIFFICULTY_CURVE_LABELS: { [curve in DifficultyCurve]: string } = {
+  [DifficultyCurve.EASY]: 'Kerge',
+  [DifficultyCurve.RAMP]: 'Tõusev',
+  [DifficultyCurve.STEEP]: 'Järsk',
+  [DifficultyCurve.RANDOM]: 'Juhus',
+};
+
+const TIMER_ACCELERATION_LABELS: { [mode in TimerAcceleration]: string } = {
+  [TimerAcceleration.NONE]: 'Ei',
+  [TimerAcceleration.PER_ROUND]: 'Voor',
+  [TimerAcceleration.PER_WORD]: 'Sõna',
+};
+
+// Settings rows start at y(152) with 36px spacing, 4 to a page with the page switcher under them,
+// arrows at x(545) and x(615). Must match SETTINGS_* constants in input.ts
+const SETTINGS_ROWS_PER_PAGE = 4;
+
+function drawSettingsPanel(state: GameState): void {
+  drawText('Seaded:', x(380), y(124), '#ffffff', fontSize(22), false);
+
+  const rows = getSettingsRows(state.gameSettings, state.dictionaries, state.seedInput);
+  const pageCount = Math.ceil(rows.length / SETTINGS_ROWS_PER_PAGE);
+  const first = state.settingsPage * SETTINGS_ROWS_PER_PAGE;
+
+  let yPos = 152;
+  for (const [label, value] of rows.slice(first, first + SETTINGS_ROWS_PER_PAGE)) {
+    drawText(label, x(380), y(yPos), '#c8c8c8', fontSize(16), false);
+    drawText(value, x(580), y(yPos), '#ffff00', fontSize(16), true);
+
+    if (state.isHost) {
+      drawText('<', x(545), y(yPos), '#b4b4b4', fontSize(18), true);
+      drawText('>', x(615), y(yPos), '#b4b4b4', fontSize(18), true);
+    }
+    yPos += 36;
+  }
+
+  // Everyone can page through the settings
+  yPos = 152 + SETTINGS_ROWS_PER_PAGE * 36;
+  drawText('Leht', x(380), y(yPos), '#787878', fontSize(16), false);
+  drawText(`${state.settingsPage + 1}/${pageCount}`, x(580), y(yPos), '#c8c8c8', fontSize(16), true);
+  drawText('<', x(545), y(yPos), '#b4b4b4', fontSize(18), true);
+  drawText('>', x(615), y(yPos), '#b4b4b4', fontSize(18), true);
+
+  if (state.seedInput !== null) {
+    drawText('Enter kinnitab, tühi = juhus', x(380), y(yPos + 24), '#787878', fontSize(12), false);
+  }
+}
+
+// Strip of alphabet bonus letters, used ones lit up
+function drawLetterProgress(usedLetters: string[]): void {
+  const startX = x(scale.mobileBoost > 1.05 ? 20 : 10);
+  const startY = y(48);
+  const letterSize = fontSize(12);
+  const letterSpacing = letterSize * 0.95;
+
+  for (let i = 0; i < ALPHABET_BONUS_LETTERS.length; i++) {
+    const letter = ALPHABET_BONUS_LETTERS[i];
+    const color = usedLetters.includes(letter) ? '#ffff00' : 'rgba(255, 255, 255, 0.25)';
+    drawText(letter, startX + i * letterSpacing, startY, color, letterSize, false);
+  }
+}
+
+function getTimerOpacity(state: GameState): number {
+  const fadeDuration = Math.max(1, state.turnDuration - 1);
+  return Math.max(0, Math.min(1, (state.turnDuration - state.turnTimer) / fadeDuration));
+}
+
 function renderGame(state: GameState): void {
   ctx.fillStyle = BG_COLOR;
   ctx.fillRect(0, 0, scale.windowWidth, scale.windowHeight);
@@ -812,6 +1301,17 @@ function renderGame(state: GameState): void {
     }
   }
 
+  // Alphabet bonus progress under the hearts
+  if (localPlayer && state.gameSettings.alphabetBonus) {
+    drawLetterProgress(localPlayer.usedLetters || []);
+  }
+
+  // Practice score and personal best (top-right)
+  if (localPlayer && state.practice) {
+    const scoreText = `${localPlayer.score} / rekord ${state.practiceBest}`;
+    drawText(scoreText, scale.windowWidth - x(90), y(20), 'rgba(255, 255, 255, 0.6)', fontSize(18), true);
+  }
+
   // Timer (bottom-right)
   if (SHOW_TIMER) {
     const timerInt = Math.ceil(state.turnTimer);
@@ -834,10 +1334,10 @@ function renderGame(state: GameState): void {
   const startAngle = -Math.PI / 2; // Start from top
   const endAngle = startAngle + timeRatio * Math.PI * 2;
 
-  // Opacity: 0 at 10s, 1 at 1s
-  const timerOpacity = Math.max(0, Math.min(1, (10 - state.turnTimer) / 9));
+  // Opacity: 0 at turn start, 1 at 1s left (turn length varies with timer acceleration)
+  const timerOpacity = getTimerOpacity(state);
 
-  // Pulse effect: frequency increases as timer decreases (0.1Hz at 10s, 2.1Hz at 0s)
+  // Pulse effect: frequency increases as timer decreases (0.1Hz at turn start, 2.1Hz at 0s)
   const turnElapsed = state.turnDuration - state.turnTimer;
   const pulseFrequency = 0.1 + (1 - timeRatio) * 1.5;
   const pulseAmplitude = 0.2 * timerOpacity;
@@ -916,7 +1416,9 @@ function renderSpectatorView(state: GameState): void {
   }
 
   // Other players in arc
-  const otherPlayers = state.players.filter(p => p.id !== state.playerId && p.state === PlayerState.ALIVE);
+  // Dropped players keep their place (dimmed) while they can still resume
+  const otherPlayers = state.players.filter(p => p.id !== state.playerId &&
+    (p.state === PlayerState.ALIVE || p.state === PlayerState.DISCONNECTED));
 
   // Circular sector timer - always centered between combo and arc
   const comboBottom = y(100) + fontSize(80);
@@ -928,10 +1430,10 @@ function renderSpectatorView(state: GameState): void {
   const timerX = centerX;
   const timerY = ((comboBottom + (y(280) - 150 * uiScale())) / 2) + 30;
 
-  // Opacity: 0 at 10s, 1 at 1s
-  const timerOpacity = Math.max(0, Math.min(1, (10 - state.turnTimer) / 9));
+  // Opacity: 0 at turn start, 1 at 1s left
+  const timerOpacity = getTimerOpacity(state);
 
-  // Pulse effect: frequency increases as timer decreases (0.1Hz at 10s, 2.1Hz at 0s)
+  // Pulse effect: frequency increases as timer decreases (0.1Hz at turn start, 2.1Hz at 0s)
   const turnElapsed = state.turnDuration - state.turnTimer;
   const pulseFrequency = 0.1 + (1 - timeRatio) * 2.0;
   const pulseAmplitude = 0.2 * timerOpacity;
@@ -1006,6 +1508,8 @@ function renderSpectatorView(state: GameState): void {
       ctx.arc(circleX, circleY, radius, 0, Math.PI * 2);
       if (isCurrentTurn) {
         ctx.fillStyle = 'rgba(255, 255, 255, 1)';
+      } else if (player.state === PlayerState.DISCONNECTED) {
+        ctx.fillStyle = 'rgba(120, 120, 120, 0.4)';
       } else {
         ctx.fillStyle = 'rgba(200, 200, 200, 0.78)'; // SDL3: (200, 200, 200) with alpha 200/255
       }
@@ -1049,6 +1553,10 @@ function renderSpectatorView(state: GameState): void {
     });
   }
 
+  if (isLocalSpectator(state)) {
+    drawText('VAATAD', x(scale.mobileBoost > 1.05 ? 20 : 10), y(20), '#b4b4b4', fontSize(16), false);
+  }
+
   // Local player lives (top-left) - rightmost disappears first, leftmost is last life
   if (localPlayer && tintedHeartCanvas) {
     const heartSize = 20 * scale.scale;
@@ -1085,6 +1593,162 @@ function renderSpectatorView(state: GameState): void {
   drawViewTransition(state);
 }
 
+function renderStats(state: GameState): void {
+  ctx.fillStyle = BG_COLOR;
+  ctx.fillRect(0, 0, scale.windowWidth, scale.windowHeight);
+  drawVignette();
+
+  const centerX = scale.windowWidth / 2;
+
+  // Back button
+  drawBackButton(state);
+
+  drawText('STATISTIKA', centerX, y(70), '#ffffff', fontSize(40), true);
+
+  const stats = state.stats;
+  if (!stats) {
+    drawText('Laen...', centerX, y(200), '#787878', fontSize(20), true);
+    return;
+  }
+
+  drawText(stats.name, centerX, y(130), '#ffff00', fontSize(28), true);
+
+  // Leaderboard button (bottom)
+  const leaderboardHighlight = state.buttonHighlightOpacity?.['leaderboard'] || 0;
+  drawButton('Edetabel', REFERENCE_WIDTH / 2 - 70, 400, 140, 40, leaderboardHighlight);
+
+  if (stats.gamesPlayed === 0) {
+    drawText('Sul pole veel ühtegi mängu', centerX, y(220), '#787878', fontSize(20), true);
+    return;
+  }
+
+  const rows: [string, string][] = [
+    ['Mänge', `${stats.gamesPlayed}`],
+    ['Võite', `${stats.wins}`],
+    ['Leitud sõnu', `${stats.wordsFound}`],
+    ['Aegumisi', `${stats.timeouts}`],
+    ['Pikim sõna', stats.longestWord || '-'],
+  ];
+
+  let yPos = y(190);
+  for (const [label, value] of rows) {
+    drawText(label, x(170), yPos, '#c8c8c8', fontSize(20), false);
+    drawText(value, x(360), yPos, '#ffff00', fontSize(20), false);
+    yPos += y(34);
+  }
+}
+
+const LEADERBOARD_CATEGORY_LABELS: { [category in LeaderboardCategory]: string } = {
+  [LeaderboardCategory.WINS]: 'Võidud',
+  [LeaderboardCategory.WORDS]: 'Sõnad',
+  [LeaderboardCategory.LONGEST_WORD]: 'Pikim sõna',
+  [LeaderboardCategory.FASTEST_ANSWER]: 'Kiireim vastus',
+};
+
+// Window tabs: button name, window, label - positions must match handleLeaderboardTap in input.ts
+const LEADERBOARD_TABS: [string, LeaderboardWindow, string][] = [
+  ['today', LeaderboardWindow.TODAY, 'Täna'],
+  ['week', LeaderboardWindow.WEEK, 'Nädal'],
+  ['alltime', LeaderboardWindow.ALL_TIME, 'Kõik'],
+];
+
+function formatLeaderboardValue(category: LeaderboardCategory, value: number, word?: string): string {
+  switch (category) {
+    case LeaderboardCategory.LONGEST_WORD:
+      return word || `${value}`;
+    case LeaderboardCategory.FASTEST_ANSWER:
+      return `${(value / 1000).toFixed(1)} s`;
+    default:
+      return `${value}`;
+  }
+}
+
+function renderLeaderboard(state: GameState): void {
+  ctx.fillStyle = BG_COLOR;
+  ctx.fillRect(0, 0, scale.windowWidth, scale.windowHeight);
+  drawVignette();
+
+  const centerX = scale.windowWidth / 2;
+
+  // Back button
+  drawBackButton(state);
+
+  drawText('EDETABEL', centerX, y(50), '#ffffff', fontSize(40), true);
+
+  // Category with arrows to switch
+  drawText('<', x(150), y(105), '#b4b4b4', fontSize(26), true);
+  drawText(LEADERBOARD_CATEGORY_LABELS[state.leaderboardCategory], centerX, y(105), '#ffff00', fontSize(26), true);
+  drawText('>', x(490), y(105), '#b4b4b4', fontSize(26), true);
+
+  // Time window tabs, the selected one fully lit
+  for (let i = 0; i < LEADERBOARD_TABS.length; i++) {
+    const [name, window, label] = LEADERBOARD_TABS[i];
+    const highlight = window === state.leaderboardWindow ? 1 : state.buttonHighlightOpacity?.[name] || 0;
+    drawButton(label, REFERENCE_WIDTH / 2 - 165 + i * 115, 150, 100, 35, highlight);
+  }
+
+  if (!state.leaderboard) {
+    drawText('Laen...', centerX, y(260), '#787878', fontSize(20), true);
+    return;
+  }
+
+  if (state.leaderboard.length === 0) {
+    drawText('Siin pole veel kedagi', centerX, y(260), '#787878', fontSize(20), true);
+    return;
+  }
+
+  let yPos = y(210);
+  for (let i = 0; i < state.leaderboard.length; i++) {
+    const entry = state.leaderboard[i];
+    const isLocal = entry.name.trim().toLowerCase() === state.playerName.trim().toLowerCase();
+    const color = isLocal ? '#ffff00' : '#c8c8c8';
+
+    drawText(`${i + 1}.`, x(140), yPos, color, fontSize(18), false);
+    drawText(entry.name, x(175), yPos, color, fontSize(18), false);
+    drawText(formatLeaderboardValue(state.leaderboardCategory, entry.value, entry.word), x(400), yPos, color, fontSize(18), false);
+    yPos += y(22);
+  }
+}
+
+// Buttons must match BUTTON_DEFS for DAILY_RESULTS in input.ts
+function renderDailyResults(state: GameState): void {
+  ctx.fillStyle = BG_GAME_OVER;
+  ctx.fillRect(0, 0, scale.windowWidth, scale.windowHeight);
+
+  const centerX = scale.windowWidth / 2;
+
+  drawText('PÄEVA VÄLJAKUTSE', centerX, y(40), '#ffffff', fontSize(36), true);
+
+  const result = state.dailyResult;
+  if (!result) {
+    drawText('Laen...', centerX, y(200), '#787878', fontSize(20), true);
+    return;
+  }
+
+  drawText(result.date, centerX, y(85), '#b4b4b4', fontSize(18), true);
+  drawText(`Sinu tulemus: ${result.score} sõna`, centerX, y(120), '#ffff00', fontSize(26), true);
+
+  const rankText = result.rank !== null ? `Koht: ${result.rank}.` : 'Arvesse läheb ainult sinu võrgu tänane esimene katse';
+  drawText(rankText, centerX, y(155), '#c8c8c8', fontSize(18), true);
+
+  let yPos = y(195);
+  for (let i = 0; i < result.entries.length; i++) {
+    const entry = result.entries[i];
+    const isLocal = entry.name.trim().toLowerCase() === state.playerName.trim().toLowerCase();
+    const color = isLocal ? '#ffff00' : '#c8c8c8';
+
+    drawText(`${i + 1}.`, x(160), yPos, color, fontSize(18), false);
+    drawText(entry.name, x(195), yPos, color, fontSize(18), false);
+    drawText(`${entry.value}`, x(440), yPos, color, fontSize(18), false);
+    yPos += y(21);
+  }
+
+  const continueHighlight = state.buttonHighlightOpacity?.['continue'] || 0;
+  drawButton('Menüüsse', REFERENCE_WIDTH / 2 - 170, 415, 160, 40, continueHighlight);
+  const summaryHighlight = state.buttonHighlightOpacity?.['summary'] || 0;
+  drawButton('Kokkuvõte', REFERENCE_WIDTH / 2 + 10, 415, 160, 40, summaryHighlight);
+}
+
 function renderGameOver(state: GameState): void {
   ctx.fillStyle = BG_GAME_OVER;
   ctx.fillRect(0, 0, scale.windowWidth, scale.windowHeight);
@@ -1098,48 +1762,13 @@ function renderGameOver(state: GameState): void {
     if (state.failedCombos.length === 0) {
       drawText('Kõik õnnestus!', centerX, y(150), '#88ff88', fontSize(24), true);
     } else {
-      // Scrollable content area
-      const scrollTop = y(95);
-      const scrollBottom = y(390);
-      const scrollHeight = scrollBottom - scrollTop;
-
-      // Calculate total content height
-      const itemHeight = y(72); // 32 + 40
-      const totalContentHeight = state.failedCombos.length * itemHeight;
-      const maxScroll = Math.max(0, totalContentHeight - scrollHeight);
-
-      // Clamp scroll position
-      if (state.failedCombosScrollY < 0) state.failedCombosScrollY = 0;
-      if (state.failedCombosScrollY > maxScroll) state.failedCombosScrollY = maxScroll;
-
-      // Set up clipping region
-      ctx.save();
-      ctx.beginPath();
-      ctx.rect(0, scrollTop, scale.windowWidth, scrollHeight);
-      ctx.clip();
-
-      // Draw scrollable content
-      let yPos = scrollTop - state.failedCombosScrollY;
-      for (const fc of state.failedCombos) {
-        // Only draw if visible
-        if (yPos + itemHeight > scrollTop && yPos < scrollBottom) {
-          // Combo name
-          drawText(fc.combo, centerX, yPos, '#ff8888', fontSize(28), true);
-          // Example words with combo highlighted
-          drawWordsWithComboHighlight(fc.exampleWords, fc.combo, centerX, yPos + y(32), fontSize(18));
-        }
-        yPos += itemHeight;
-      }
-
-      ctx.restore();
-
-      // Draw scroll indicator if content overflows
-      if (totalContentHeight > scrollHeight) {
-        const scrollBarHeight = Math.max(20, (scrollHeight / totalContentHeight) * scrollHeight);
-        const scrollBarY = scrollTop + (state.failedCombosScrollY / maxScroll) * (scrollHeight - scrollBarHeight);
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-        ctx.fillRect(scale.windowWidth - 8, scrollBarY, 4, scrollBarHeight);
-      }
+      drawScrollList(state, state.failedCombos.length, y(72), (i, yPos) => {
+        const fc = state.failedCombos[i];
+        // Combo name
+        drawText(fc.combo, centerX, yPos, '#ff8888', fontSize(28), true);
+        // Example words with combo highlighted
+        drawWordsWithComboHighlight(fc.exampleWords, fc.combo, centerX, yPos + y(32), fontSize(18));
+      });
     }
 
     // Back button
@@ -1148,6 +1777,16 @@ function renderGameOver(state: GameState): void {
     return;
   }
 
+  if (state.showHistory) {
+    renderHistory(state);
+    return;
+  }
+
+  if (state.showRejectedWords) {
+    renderRejectedWords(state);
+    return;
+  }
+
   // Title
   drawText('MÄNG LÄBI', centerX, y(60), '#ffffff', fontSize(50), true);
 
@@ -1159,6 +1798,12 @@ function renderGameOver(state: GameState): void {
     drawText(winnerText, centerX, y(130), '#ffff00', fontSize(40), true);
   }
 
+  // Practice result against the personal best
+  if (state.practice) {
+    const bestText = state.practiceNewBest ? 'UUS REKORD!' : `Rekord: ${state.practiceBest}`;
+    drawText(bestText, centerX, y(130), state.practiceNewBest ? '#ffff00' : '#c8c8c8', fontSize(32), true);
+  }
+
   let yPos = y(235);
   for (const player of state.players) {
     const scoreLine = `${player.name}: ${player.score} p`;
@@ -1167,6 +1812,11 @@ function renderGameOver(state: GameState): void {
     yPos += y(26);
   }
 
+  // Seed, so the game can be played again
+  if (state.gameSeed !== null) {
+    drawText(`Seeme: ${state.gameSeed}`, x(10), y(455), '#787878', fontSize(14), false);
+  }
+
   // Continue button
   const buttonText = state.players.length > 1 ? 'Ootesaali' : 'Menüüsse';
   const continueHighlight = state.buttonHighlightOpacity?.['continue'] || 0;
@@ -1175,7 +1825,115 @@ function renderGameOver(state: GameState): void {
   // View Failed Combos button (only if there are failed combos)
   if (state.failedCombos.length > 0) {
     const failedHighlight = state.buttonHighlightOpacity?.['failed'] || 0;
-    drawButton('Vaata vigu', REFERENCE_WIDTH / 2 - 70, 420, 140, 40, failedHighlight);
+    drawButton('Vaata vigu', REFERENCE_WIDTH / 2 - 150, 420, 140, 40, failedHighlight);
+  }
+
+  // Game history button (only if any turn was played)
+  if (state.history.length > 0) {
+    const historyHighlight = state.buttonHighlightOpacity?.['history'] || 0;
+    drawButton('Mängu käik', REFERENCE_WIDTH / 2 + 10, 420, 140, 40, historyHighlight);
   }
+
+  // Report missing words button (only if the dictionary rejected any of ours)
+  if (state.rejectedWords.length > 0) {
+    const reportHighlight = state.buttonHighlightOpacity?.['report'] || 0;
+    drawButton('Puuduv sõna?', REFERENCE_WIDTH - 150, 10, 140, 35, reportHighlight);
+  }
+
+  // Watch the game again, not offered inside the replay itself
+  if (state.replayId && !state.replay) {
+    const replayHighlight = state.buttonHighlightOpacity?.['replay'] || 0;
+    drawButton('Kordus', 10, 10, 110, 35, replayHighlight);
+  }
+}
+
+// Scrollable list between the title and the back button of the game over views, scrolled by state.gameOverScrollY
+function drawScrollList(
+  state: GameState,
+  itemCount: number,
+  itemHeight: number,
+  drawItem: (index: number, yPos: number) => void
+): void {
+  const scrollTop = y(95);
+  const scrollBottom = y(390);
+  const scrollHeight = scrollBottom - scrollTop;
+
+  // Calculate total content height
+  const totalContentHeight = itemCount * itemHeight;
+  const maxScroll = Math.max(0, totalContentHeight - scrollHeight);
+
+  // Clamp scroll position
+  if (state.gameOverScrollY < 0) state.gameOverScrollY = 0;
+  if (state.gameOverScrollY > maxScroll) state.gameOverScrollY = maxScroll;
+
+  // Set up clipping region
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, scrollTop, scale.windowWidth, scrollHeight);
+  ctx.clip();
+
+  // Draw scrollable content, only the visible items
+  let yPos = scrollTop - state.gameOverScrollY;
+  for (let i = 0; i < itemCount; i++) {
+    if (yPos + itemHeight > scrollTop && yPos < scrollBottom) {
+      drawItem(i, yPos);
+    }
+    yPos += itemHeight;
+  }
+
+  ctx.restore();
+
+  // Draw scroll indicator if content overflows
+  if (totalContentHeight > scrollHeight) {
+    const scrollBarHeight = Math.max(20, (scrollHeight / totalContentHeight) * scrollHeight);
+    const scrollBarY = scrollTop + (state.gameOverScrollY / maxScroll) * (scrollHeight - scrollBarHeight);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+    ctx.fillRect(scale.windowWidth - 8, scrollBarY, 4, scrollBarHeight);
+  }
+}
+
+// Every turn of the game: combo, player, accepted word and time, then any wrong attempts
+function renderHistory(state: GameState): void {
+  const centerX = scale.windowWidth / 2;
+
+  drawText('Mängu käik', centerX, y(50), '#ffffff', fontSize(35), true);
+
+  drawScrollList(state, state.history.length, y(48), (i, yPos) => {
+    const turn = state.history[i];
+    drawText(`${i + 1}.`, x(30), yPos, '#787878', fontSize(18), false);
+    drawText(turn.combo, x(70), yPos, '#ffffff', fontSize(18), false);
+    drawText(turn.playerName, x(140), yPos, '#c8c8c8', fontSize(18), false);
+    if (turn.word) {
+      drawText(turn.word, x(320), yPos, '#88ff88', fontSize(18), false);
+    } else {
+      drawText('aeg läbi', x(320), yPos, '#ff8888', fontSize(18), false);
+    }
+    drawText(`${(turn.timeMs / 1000).toFixed(1)} s`, x(560), yPos, '#b4b4b4', fontSize(16), false);
+
+    if (turn.wrongAttempts.length > 0) {
+      drawText(`Valesti: ${turn.wrongAttempts.join(', ')}`, x(140), yPos + y(22), '#888888', fontSize(14), false);
+    }
+  });
+
+  const backHighlight = state.buttonHighlightOpacity?.['back'] || 0;
+  drawButton('Tagasi', REFERENCE_WIDTH / 2 - 60, 400, 120, 40, backHighlight);
+}
+
+// Rejected words list - rows must match REJECTED_ROWS_START_Y / REJECTED_ROW_HEIGHT in input.ts
+function renderRejectedWords(state: GameState): void {
+  const centerX = scale.windowWidth / 2;
+
+  drawText('Puuduvad sõnad', centerX, y(40), '#ffffff', fontSize(35), true);
+  drawText('Vajuta sõnale, mis peaks sõnastikus olema', centerX, y(85), '#c8c8c8', fontSize(16), true);
+
+  let yPos = y(120);
+  for (const rejected of state.rejectedWords) {
+    drawText(rejected.word, x(200), yPos, rejected.reported ? '#888888' : '#ffffff', fontSize(22), false);
+    drawText(rejected.reported ? 'teatatud' : rejected.combo, x(440), yPos, rejected.reported ? '#88ff88' : '#ff8888', fontSize(18), false);
+    yPos += y(32);
+  }
+
+  const backHighlight = state.buttonHighlightOpacity?.['back'] || 0;
+  drawButton('Tagasi', REFERENCE_WIDTH / 2 - 60, 400, 120, 40, backHighlight);
 }
 
@@ -0,0 +1,128 @@
+import { ReplayFile } from './protocol';
+import { GameState, ClientPhase, ReplayPlayback, resetGameState } from './state';
+import * as network from './network';
+
+// Replay viewer: plays a recorded game back through the regular message handler, at the original speed.
+// The viewer has no player id, so the game shows in the spectator view.
+
+export const REPLAY_SEEK_STEP_MS = 5000;
+
+export async function startReplay(state: GameState, id: string): Promise<void> {
+  network.disconnect();
+  state.practice = false;
+  state.daily = false;
+  state.replay = { id, entries: [], durationMs: 0, position: 0, nextEntry: 0, paused: false };
+  state.phase = ClientPhase.CONNECTING;
+
+  try {
+    const response = await fetch(`/api/replays/${encodeURIComponent(id)}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const file = await response.json() as ReplayFile;
+
+    // Closed while loading
+    if (!state.replay || state.replay.id !== id) return;
+
+    state.replay.entries = file.entries;
+    state.replay.durationMs = file.durationMs;
+    state.gameName = file.gameName;
+    rewind(state, state.replay);
+    console.log(`Playing replay ${id} (${file.entries.length} messages)`);
+  } catch (e) {
+    console.error('Failed to load replay:', e);
+    if (state.replay && state.replay.id === id) {
+      stopReplay(state);
+    }
+  }
+}
+
+export function stopReplay(state: GameState): void {
+  state.replay = null;
+  resetGameState(state);
+  state.players = [];
+  state.spectators = [];
+  state.phase = ClientPhase.MAIN_MENU;
+}
+
+// Back to before the first message
+function rewind(state: GameState, replay: ReplayPlayback): void {
+  resetGameState(state);
+  state.playerId = '';
+  state.players = [];
+  state.spectators = [];
+  state.hostId = '';
+  state.isHost = false;
+  state.failedCombos = [];
+  state.showFailedCombos = false;
+  state.history = [];
+  state.showHistory = false;
+  state.rejectedWords = [];
+  state.showRejectedWords = false;
+  state.phase = ClientPhase.SPECTATING;
+
+  replay.position = 0;
+  replay.nextEntry = 0;
+}
+
+// Applies every message recorded up to the current position, returns when the last one that set the turn timer was
+function applyDueEntries(state: GameState, replay: ReplayPlayback): number | null {
+  let timerSetAt: number | null = null;
+
+  while (replay.nextEntry < replay.entries.length && replay.entries[replay.nextEntry].t <= replay.position) {
+    const entry = replay.entries[replay.nextEntry];
+    const timerBefore = state.turnTimer;
+    network.deliverReplayMessage(state, entry.message);
+    if (state.turnTimer !== timerBefore) {
+      timerSetAt = entry.t;
+    }
+    replay.nextEntry++;
+  }
+
+  return timerSetAt;
+}
+
+export function updateReplay(state: GameState, deltaTime: number): void {
+  const replay = state.replay;
+  if (!replay || replay.entries.length === 0 || replay.paused) return;
+
+  replay.position = Math.min(replay.durationMs, replay.position + deltaTime * 1000);
+  applyDueEntries(state, replay);
+
+  if (replay.position >= replay.durationMs) {
+    replay.paused = true;
+  }
+}
+
+export function seekReplay(state: GameState, position: number): void {
+  const replay = state.replay;
+  if (!replay || replay.entries.length === 0) return;
+
+  const target = Math.max(0, Math.min(replay.durationMs, position));
+  if (target < replay.position) {
+    rewind(state, replay);
+  }
+
+  // Everything in between arrives at once, so count the turn timer down by the time skipped since it was set
+  const from = replay.position;
+  replay.position = target;
+  const timerSetAt = applyDueEntries(state, replay) ?? from;
+  state.turnTimer = Math.max(0, state.turnTimer - (target - timerSetAt) / 1000);
+  state.prevTurnTimer = state.turnTimer;
+
+  // No burst of sounds for the skipped turns
+  state.pendingCorrectSound = false;
+  state.pendingWrongSound = false;
+  state.pendingTurnOverSound = false;
+}
+
+export function toggleReplayPause(state: GameState): void {
+  const replay = state.replay;
+  if (!replay || replay.entries.length === 0) return;
+
+  // Play again from the start once it has ended
+  if (replay.paused && replay.position >= replay.durationMs) {
+    seekReplay(state, 0);
+  }
+  replay.paused = !replay.paused;
+}
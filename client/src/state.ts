@@ -3,9 +3,19 @@ import {
   PlayerState,
   GamePhase,
   GameInfo,
+  DictionaryInfo,
   FailedComboInfo,
-  DEFAULT_LIVES,
+  GameSettings,
+  BotDifficulty,
+  PlayerStats,
+  LeaderboardCategory,
+  LeaderboardWindow,
+  LeaderboardEntry,
+  ReplayEntry,
+  TurnHistoryEntry,
+  ChatEntry,
   DEFAULT_TURN_DURATION,
+  DEFAULT_GAME_SETTINGS,
 } from './protocol';
 
 export enum ClientPhase {
@@ -15,17 +25,51 @@ export enum ClientPhase {
   CONNECTING = 'CONNECTING',
   LOBBY_CREATE = 'LOBBY_CREATE',
   LOBBY_JOIN = 'LOBBY_JOIN',
+  JOIN_CODE = 'JOIN_CODE',
+  JOIN_PASSWORD = 'JOIN_PASSWORD',
   LOBBY_WAITING = 'LOBBY_WAITING',
   PLAYING = 'PLAYING',
   SPECTATING = 'SPECTATING',
   GAME_OVER = 'GAME_OVER',
+  STATS = 'STATS',
+  LEADERBOARD = 'LEADERBOARD',
+  DAILY_RESULTS = 'DAILY_RESULTS',
   DISCONNECTED = 'DISCONNECTED',
 }
 
+// A word of ours the dictionary rejected this game, can be reported as missing
+export interface RejectedWord {
+  word: string;
+  combo: string;
+  reported: boolean;
+}
+
+// Only the most recent rejections fit on the report screen
+export const MAX_REJECTED_WORDS = 8;
+
+// A recorded game being played back through the regular message handler
+export interface ReplayPlayback {
+  id: string;
+  entries: ReplayEntry[];  // Empty while loading
+  durationMs: number;
+  position: number;        // ms into the replay
+  nextEntry: number;       // First entry not applied yet
+  paused: boolean;
+}
+
+// How a daily challenge went, from DAILY_RESULT
+export interface DailyResult {
+  date: string;
+  score: number;
+  rank: number | null;  // null when an earlier attempt today already counted
+  entries: LeaderboardEntry[];
+}
+
 export interface GameState {
   // Client state
   phase: ClientPhase;
   connected: boolean;
+  reconnecting: boolean;  // Connection dropped mid-game, trying to resume the session
 
   // Player info
   playerId: string;
@@ -39,8 +83,13 @@ export interface GameState {
 
   // Players
   players: PlayerInfo[];
+  spectators: PlayerInfo[];
   hostId: string;
 
+  // Game rules (set by host in lobby)
+  gameSettings: GameSettings;
+  botDifficulty: BotDifficulty;  // Difficulty of the next bot the host adds
+
   // Game state
   currentCombo: string;
   currentTurnPlayerId: string;
@@ -48,6 +97,8 @@ export interface GameState {
   localInput: string;
   turnTimer: number;
   turnDuration: number;
+  usedWords: string[];
+  gameSeed: number | null;  // Seed of the current or last game, the host can replay it
   prevTurnTimer: number;
   lastTickSecond: number;
 
@@ -72,7 +123,7 @@ export interface GameState {
 
   // Menu state
   menuSelectedIndex: number;
-  inputFocus: number;
+  inputFocus: number;  // Text field typed into on screens with more than one
   prevSelectedIndex: number;
   menuTransitionTime: number;
   menuPressedIndex: number; // Which menu item is being touched (-1 for none)
@@ -87,12 +138,56 @@ export interface GameState {
 
   // Lobby
   gamesList: GameInfo[];
-  joiningGame: boolean;
+  dictionaries: DictionaryInfo[];  // Dictionaries the server offers, for the host to pick from
+  connectTarget: ClientPhase;  // Where the name screen leads once connected
+  createPrivate: boolean;      // Create the game as private, joined with a code
+  gamePassword: string;        // Optional password for the game being created
+  joinTarget: { id: string; name: string } | null;  // Game being joined, for the password screen
+  joinPassword: string;        // Password typed for joinTarget
+  joinCodeInput: string;       // Code typed on the join code screen
+  joinError: string | null;    // Reason the last join was rejected
+  lobbyJoinCode: string | null;  // Code of the private game we are in
+  inviteTarget: string | null;   // Game id or join code from an invite link, joined once connected
+  inviteCopiedUntil: number;     // animTime until which the waiting room says the link was copied
+  selectedPlayerId: string | null;  // Lobby player row the host opened the actions for
+  settingsPage: number;             // Page of the lobby settings panel on screen
+  seedInput: string | null;         // Seed the host is typing in the settings, null when not typing one
+  menuNotice: string | null;        // Shown on the main menu until the next input, e.g. after being kicked
+
+  // Chat
+  chatLog: ChatEntry[];       // Oldest first
+  chatInput: string;          // Message being typed
+  chatOpen: boolean;          // Panel open, or typing over the spectator view
+  chatUnread: number;         // Messages from others since the chat was last open
+  chatOverlayUntil: number;   // animTime until which the spectator view shows the latest messages
+
+  // Stats
+  stats: PlayerStats | null;
+  leaderboardCategory: LeaderboardCategory;
+  leaderboardWindow: LeaderboardWindow;
+  leaderboard: LeaderboardEntry[] | null;  // null while loading
+
+  // Offline practice
+  practice: boolean;
+  practiceBest: number;       // Personal best (words), kept in localStorage
+  practiceNewBest: boolean;   // Last practice game beat the personal best
+
+  // Daily challenge
+  daily: boolean;                    // The current game is today's challenge
+  dailyResult: DailyResult | null;   // null until the server has ranked the game
 
   // Game over
   failedCombos: FailedComboInfo[];
   showFailedCombos: boolean;
-  failedCombosScrollY: number;
+  history: TurnHistoryEntry[];
+  showHistory: boolean;
+  gameOverScrollY: number;  // Scroll position of the failed combos or history list
+  rejectedWords: RejectedWord[];
+  showRejectedWords: boolean;
+  replayId: string | null;  // Recording of the game that just ended
+
+  // Replay viewer
+  replay: ReplayPlayback | null;
 
   // View transition (between PLAYING and SPECTATING)
   viewTransitionOpacity: number;
@@ -108,6 +203,7 @@ export function createInitialState(): GameState {
   return {
     phase: ClientPhase.MAIN_MENU,
     connected: false,
+    reconnecting: false,
 
     playerId: '',
     playerName: 'Player',
@@ -118,14 +214,20 @@ export function createInitialState(): GameState {
     gameName: 'My Game',
 
     players: [],
+    spectators: [],
     hostId: '',
 
+    gameSettings: { ...DEFAULT_GAME_SETTINGS },
+    botDifficulty: BotDifficulty.MEDIUM,
+
     currentCombo: '',
     currentTurnPlayerId: '',
     prevTurnPlayerId: '',
     localInput: '',
     turnTimer: DEFAULT_TURN_DURATION,
     turnDuration: DEFAULT_TURN_DURATION,
+    usedWords: [],
+    gameSeed: null,
     prevTurnTimer: DEFAULT_TURN_DURATION,
     lastTickSecond: -1,
 
@@ -151,7 +253,7 @@ export function createInitialState(): GameState {
     menuTransitionTime: 0,
     menuPressedIndex: -1,
     menuHoveredIndex: -1,
-    menuHighlightOpacity: [0, 0],
+    menuHighlightOpacity: [0, 0, 0, 0, 0],
     pressedButton: null,
     hoveredButton: null,
     buttonHighlightOpacity: {},
@@ -159,11 +261,50 @@ export function createInitialState(): GameState {
     animTime: 0,
 
     gamesList: [],
-    joiningGame: false,
+    dictionaries: [],
+    connectTarget: ClientPhase.LOBBY_CREATE,
+    createPrivate: false,
+    gamePassword: '',
+    joinTarget: null,
+    joinPassword: '',
+    joinCodeInput: '',
+    joinError: null,
+    lobbyJoinCode: null,
+    inviteTarget: null,
+    inviteCopiedUntil: 0,
+    selectedPlayerId: null,
+    settingsPage: 0,
+    seedInput: null,
+    menuNotice: null,
+
+    chatLog: [],
+    chatInput: '',
+    chatOpen: false,
+    chatUnread: 0,
+    chatOverlayUntil: 0,
+
+    stats: null,
+    leaderboardCategory: LeaderboardCategory.WINS,
+    leaderboardWindow: LeaderboardWindow.TODAY,
+    leaderboard: null,
+
+    practice: false,
+    practiceBest: 0,
+    practiceNewBest: false,
+
+    daily: false,
+    dailyResult: null,
 
     failedCombos: [],
     showFailedCombos: false,
-    failedCombosScrollY: 0,
+    history: [],
+    showHistory: false,
+    gameOverScrollY: 0,
+    rejectedWords: [],
+    showRejectedWords: false,
+    replayId: null,
+
+    replay: null,
 
     viewTransitionOpacity: 0,
     viewTransitionFadingOut: false,
@@ -188,6 +329,10 @@ export function isMyTurn(state: GameState): boolean {
   return !!local && local.id === state.currentTurnPlayerId && local.state === PlayerState.ALIVE;
 }
 
+export function isLocalSpectator(state: GameState): boolean {
+  return state.spectators.some(p => p.id === state.playerId);
+}
+
 export function isLocalPlayerAlive(state: GameState): boolean {
   const local = getLocalPlayer(state);
   return !!local && local.state === PlayerState.ALIVE;
@@ -198,7 +343,8 @@ export function getAlivePlayers(state: GameState): PlayerInfo[] {
 }
 
 export function getReadyCount(state: GameState): number {
-  return state.players.filter(p => p.state === PlayerState.READY).length;
+  // Bots are always ready
+  return state.players.filter(p => p.state === PlayerState.READY || p.botDifficulty).length;
 }
 
 export function resetGameState(state: GameState): void {
@@ -206,6 +352,7 @@ export function resetGameState(state: GameState): void {
   state.currentTurnPlayerId = '';
   state.localInput = '';
   state.turnTimer = state.turnDuration;
+  state.usedWords = [];
   state.wrongAnswerFlash = false;
   state.wrongAnswerOpacity = 0;
   state.wrongAnswerOpacityUp = true;
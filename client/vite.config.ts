@@ -12,6 +12,10 @@ export default defineConfig({
   },
   server: {
     port: 3000,
+    // Replays are fetched from the game server over HTTP
+    proxy: {
+      '/api': 'http://localhost:8080',
+    },
     fs: {
       allow: ['..'],
     },
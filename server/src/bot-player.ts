@@ -0,0 +1,88 @@
+import { BotDifficulty } from '../../shared/protocol';
+import { Dictionary, getValidWordsForCombo } from './game-logic';
+
+interface BotProfile {
+  reactionMs: { min: number; max: number };  // Thinking time before the first keystroke
+  keystrokeMs: number;                        // Delay between typed letters
+  vocabularyPercent: number;                  // Share of the dictionary the bot knows
+  maxWordLength: number;                      // Weaker bots stick to short, everyday words
+  missChance: number;                         // Chance to blank and let the timer run out
+}
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  [BotDifficulty.EASY]: {
+    reactionMs: { min: 2000, max: 4500 },
+    keystrokeMs: 250,
+    vocabularyPercent: 20,
+    maxWordLength: 8,
+    missChance: 0.25,
+  },
+  [BotDifficulty.MEDIUM]: {
+    reactionMs: { min: 1200, max: 3000 },
+    keystrokeMs: 170,
+    vocabularyPercent: 50,
+    maxWordLength: 10,
+    missChance: 0.1,
+  },
+  [BotDifficulty.HARD]: {
+    reactionMs: { min: 600, max: 1500 },
+    keystrokeMs: 110,
+    vocabularyPercent: 100,
+    maxWordLength: 14,
+    missChance: 0.03,
+  },
+};
+
+const BOT_NAMES = ['Robo-Mari', 'Robo-Jaan', 'Robo-Liis', 'Robo-Toomas', 'Robo-Kati', 'Robo-Peeter', 'Robo-Anu', 'Robo-Mart'];
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return Object.values(BotDifficulty).includes(value as BotDifficulty);
+}
+
+export function pickBotName(takenNames: Set<string>): string {
+  const free = BOT_NAMES.filter(name => !takenNames.has(name));
+  if (free.length > 0) {
+    return free[Math.floor(Math.random() * free.length)];
+  }
+  return `Robo-${takenNames.size + 1}`;
+}
+
+// FNV-1a, so a bot of a given difficulty always knows the same subset of words
+function wordHash(word: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Returns the word the bot will type, or null if it blanks on this combo
+export function chooseBotWord(
+  dictionary: Dictionary,
+  difficulty: BotDifficulty,
+  combo: string,
+  usedWords: Set<string>,
+  minWordLength: number
+): string | null {
+  const profile = BOT_PROFILES[difficulty];
+  if (Math.random() < profile.missChance) {
+    return null;
+  }
+
+  const knownWords = getValidWordsForCombo(dictionary, combo, usedWords).filter(word =>
+    word.length >= minWordLength &&
+    word.length <= profile.maxWordLength &&
+    wordHash(word) % 100 < profile.vocabularyPercent
+  );
+  if (knownWords.length === 0) {
+    return null;
+  }
+
+  return knownWords[Math.floor(Math.random() * knownWords.length)];
+}
+
+export function getBotReactionMs(difficulty: BotDifficulty): number {
+  const { min, max } = BOT_PROFILES[difficulty].reactionMs;
+  return min + Math.random() * (max - min);
+}
@@ -0,0 +1,87 @@
+// Writing combo lists and difficulty scoring, shared by the server and tools/generate-combos.ts.
+// The file format and its parser are in shared/word-lists.ts, since practice reads the lists too.
+
+import { ComboStats } from '../../shared/word-lists';
+
+export interface ComboEntry extends ComboStats {
+  combo: string;
+}
+
+export function formatComboList(entries: ComboEntry[], header: string[] = []): string {
+  const lines = header.map(line => `# ${line}`);
+  for (const entry of entries) {
+    lines.push(`${entry.combo}\t${entry.wordCount}\t${entry.difficulty}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// How many words contain each letter sequence of the given lengths (each word counted once)
+export function countComboWords(words: Iterable<string>, minLength: number, maxLength: number): Map<string, number> {
+  const counts: Map<string, number> = new Map();
+
+  for (const word of words) {
+    const seen: Set<string> = new Set();
+    for (let length = minLength; length <= maxLength; length++) {
+      for (let start = 0; start + length <= word.length; start++) {
+        seen.add(word.slice(start, start + length));
+      }
+    }
+    for (const combo of seen) {
+      counts.set(combo, (counts.get(combo) || 0) + 1);
+    }
+  }
+
+  return counts;
+}
+
+// Fewer words means harder. Scored on a log scale between the rarest and the most
+// common combo, since the counts span several orders of magnitude.
+export function scoreDifficulty(wordCount: number, minCount: number, maxCount: number): number {
+  if (maxCount <= minCount) return 0;
+
+  const range = Math.log(maxCount) - Math.log(minCount);
+  const score = (Math.log(maxCount) - Math.log(Math.max(wordCount, minCount))) / range;
+  return Math.round(Math.min(1, Math.max(0, score)) * 100);
+}
+
+// Stats for a hand-written list, which has no metadata. Only the listed combos are looked up.
+export function computeComboStats(words: Iterable<string>, combos: string[]): Map<string, ComboStats> {
+  const comboSet = new Set(combos);
+  const lengths = Array.from(new Set(combos.map(c => c.length)));
+  const counts: Map<string, number> = new Map(combos.map(c => [c, 0]));
+
+  for (const word of words) {
+    const seen: Set<string> = new Set();
+    for (const length of lengths) {
+      for (let start = 0; start + length <= word.length; start++) {
+        const sub = word.slice(start, start + length);
+        if (comboSet.has(sub)) seen.add(sub);
+      }
+    }
+    for (const combo of seen) {
+      counts.set(combo, counts.get(combo)! + 1);
+    }
+  }
+
+  const values = Array.from(counts.values());
+  const minCount = Math.max(1, Math.min(...values));
+  const maxCount = Math.max(...values);
+
+  const stats: Map<string, ComboStats> = new Map();
+  for (const [combo, wordCount] of counts) {
+    stats.set(combo, { wordCount, difficulty: scoreDifficulty(wordCount, minCount, maxCount) });
+  }
+  return stats;
+}
+
+// Splits combos into equally sized tiers, easiest first
+export function buildDifficultyTiers(combos: string[], stats: Map<string, ComboStats>, tierCount: number): string[][] {
+  const sorted = [...combos].sort((a, b) => (stats.get(a)?.difficulty ?? 50) - (stats.get(b)?.difficulty ?? 50));
+  const tierSize = Math.ceil(sorted.length / tierCount);
+
+  const tiers: string[][] = [];
+  for (let i = 0; i < tierCount; i++) {
+    tiers.push(sorted.slice(i * tierSize, (i + 1) * tierSize));
+  }
+  return tiers;
+}
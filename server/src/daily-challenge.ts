@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import { LeaderboardEntry } from '../../shared/protocol';
+import { readJsonFile, JsonFileWriter } from './json-file';
+import { MAX_SEED } from './random';
+
+const DAILY_RANKING_SIZE = 10;
+
+// Older days are dropped from the file
+const DAILY_KEEP_DAYS = 30;
+
+// Everyone playing on the same day (server local time) gets the same seed
+export interface DailyChallenge {
+  date: string;  // YYYY-MM-DD
+  seed: number;
+}
+
+export interface DailyResult {
+  name: string;
+  playerKey: string;     // From dailyPlayerKey, decides who has already played
+  score: number;         // Words found
+  answerTimeMs: number;  // Total time to correct answers, breaks ties
+  finishedAt: number;    // Unix ms
+}
+
+interface DailyFile {
+  version: number;
+  days: Record<string, DailyResult[]>;
+}
+
+const DAILY_FILE_VERSION = 2;
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function getDailyChallenge(now: Date = new Date()): DailyChallenge {
+  // Spread consecutive dates apart so neighbouring days don't look alike
+  let hash = 2166136261;
+  for (const char of formatDate(now)) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 16777619) >>> 0;
+  }
+  return { date: formatDate(now), seed: hash % (MAX_SEED + 1) };
+}
+
+// Attempts are told apart by the address they come from rather than the typed name, which
+// anyone can change between tries. Only a hash of the address is kept in the file.
+export function dailyPlayerKey(address: string): string {
+  return createHash('sha256').update(address).digest('hex').slice(0, 16);
+}
+
+// Most words first, faster total answer time on a tie
+function compareResults(a: DailyResult, b: DailyResult): number {
+  return b.score - a.score || a.answerTimeMs - b.answerTimeMs;
+}
+
+// Per-day rankings, persisted as JSON. Only the first attempt from each player key counts each day.
+export class DailyChallengeStore {
+  private days: Map<string, DailyResult[]> = new Map();
+  private writer: JsonFileWriter;
+
+  constructor(filePath: string) {
+    this.writer = new JsonFileWriter(filePath);
+
+    const data = readJsonFile<DailyFile>(filePath);
+    if (data && data.days) {
+      for (const [date, results] of Object.entries(data.days)) {
+        // Version 1 results have no player key and never match a new attempt
+        if (Array.isArray(results)) {
+          this.days.set(date, results);
+        }
+      }
+      console.log(`Loaded daily challenge results for ${this.days.size} days from ${filePath}`);
+    }
+  }
+
+  hasPlayed(date: string, playerKey: string): boolean {
+    return (this.days.get(date) || []).some(r => r.playerKey === playerKey);
+  }
+
+  // Returns the player's place in the day's ranking, or null if they had already played
+  record(date: string, result: DailyResult): number | null {
+    if (this.hasPlayed(date, result.playerKey)) {
+      return null;
+    }
+
+    const results = this.days.get(date) || [];
+    results.push(result);
+    results.sort(compareResults);
+    this.days.set(date, results);
+
+    this.prune(date);
+    this.save();
+    return results.indexOf(result) + 1;
+  }
+
+  getRanking(date: string): LeaderboardEntry[] {
+    return (this.days.get(date) || [])
+      .slice(0, DAILY_RANKING_SIZE)
+      .map(r => ({ name: r.name, value: r.score }));
+  }
+
+  private prune(today: string): void {
+    const cutoff = new Date(today);  // Parsed as UTC midnight
+    cutoff.setUTCDate(cutoff.getUTCDate() - DAILY_KEEP_DAYS);
+    const cutoffDate = cutoff.toISOString().slice(0, 10);
+
+    for (const date of this.days.keys()) {
+      if (date < cutoffDate) {
+        this.days.delete(date);
+      }
+    }
+  }
+
+  private save(): void {
+    const data: DailyFile = { version: DAILY_FILE_VERSION, days: Object.fromEntries(this.days) };
+    this.writer.write(data);
+  }
+}
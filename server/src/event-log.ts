@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Structured game event log: one JSON object per line, every event keyed by game id.
+// events.log is rotated to events.1.log, events.2.log, ... once it grows past the size limit.
+
+const LOG_DIR = process.env.EVENT_LOG_DIR || path.join(process.cwd(), 'logs');
+const LOG_FILE = path.join(LOG_DIR, 'events.log');
+const MAX_FILE_BYTES = parseInt(process.env.EVENT_LOG_MAX_BYTES || String(10 * 1024 * 1024), 10);
+const MAX_ROTATED_FILES = 5;
+
+export type GameEventType =
+  | 'GAME_CREATED'
+  | 'GAME_STARTED'
+  | 'WORD_SUBMITTED'
+  | 'TURN_TIMEOUT'
+  | 'PLAYER_ELIMINATED'
+  | 'GAME_OVER';
+
+let pendingLines: string[] = [];
+let flushing = false;
+let currentSize = -1;  // Unknown until the first flush
+
+export function logGameEvent(gameId: string, type: GameEventType, data: Record<string, unknown> = {}): void {
+  const event = { time: new Date().toISOString(), gameId, type, ...data };
+  pendingLines.push(JSON.stringify(event) + '\n');
+  flush();
+}
+
+// Writes run one at a time so rotation never races an append
+function flush(): void {
+  if (flushing || pendingLines.length === 0) return;
+  flushing = true;
+
+  const chunk = pendingLines.join('');
+  pendingLines = [];
+
+  writeChunk(chunk)
+    .catch((err) => console.error('Failed to write event log:', err))
+    .finally(() => {
+      flushing = false;
+      flush();
+    });
+}
+
+async function writeChunk(chunk: string): Promise<void> {
+  if (currentSize < 0) {
+    await fs.promises.mkdir(LOG_DIR, { recursive: true });
+    currentSize = await fs.promises.stat(LOG_FILE).then(s => s.size, () => 0);
+  }
+
+  const bytes = Buffer.byteLength(chunk);
+  if (currentSize > 0 && currentSize + bytes > MAX_FILE_BYTES) {
+    await rotate();
+    currentSize = 0;
+  }
+
+  await fs.promises.appendFile(LOG_FILE, chunk);
+  currentSize += bytes;
+}
+
+function rotatedPath(index: number): string {
+  return path.join(LOG_DIR, `events.${index}.log`);
+}
+
+async function rotate(): Promise<void> {
+  await fs.promises.rm(rotatedPath(MAX_ROTATED_FILES), { force: true });
+  for (let i = MAX_ROTATED_FILES - 1; i >= 1; i--) {
+    await fs.promises.rename(rotatedPath(i), rotatedPath(i + 1)).catch(() => undefined);
+  }
+  await fs.promises.rename(LOG_FILE, rotatedPath(1));
+}
@@ -1,90 +1,289 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { TurnResult } from '../../shared/protocol';
+import {
+  TimerAcceleration,
+  DifficultyCurve,
+  GameSettings,
+  DictionaryInfo,
+  SETTINGS_LIMITS,
+  DEFAULT_DICTIONARY,
+} from '../../shared/protocol';
+import { Random, isSeed, shuffle } from './random';
+import { ComboStats, parseComboList, parseWordList } from '../../shared/word-lists';
+import { computeComboStats, buildDifficultyTiers } from './combos';
 
-let wordSet: Set<string> = new Set();
-let comboList: string[] = [];
+// A named word list / combo list pair in server/data
+interface DictionaryPack {
+  id: string;
+  name: string;
+  words: string;
+  combos: string;
+  overlay: string;   // Words accepted by moderators, optional
+}
+
+// Add a pack here together with its data files. Packs whose files are missing are skipped,
+// except the default one the server can't run without, and only loaded packs are offered to hosts.
+const DICTIONARY_PACKS: DictionaryPack[] = [
+  { id: DEFAULT_DICTIONARY, name: 'Eesti', words: 'sonad4.txt', combos: 'kombinatsioonid4.txt', overlay: 'sonad-lisa.txt' },
+];
+
+// One loaded version of a pack's word and combo lists. Reloading builds a new Dictionary
+// instead of changing this one, so games keep playing on the version they started with.
+// Only moderator-accepted words are ever added to a live version.
+export interface Dictionary {
+  id: string;
+  name: string;
+  version: number;
+  loadedAt: number;
+  words: Set<string>;
+  combos: string[];
+  comboStats: Map<string, ComboStats>;  // From the file if it was generated, counted at load otherwise
+  comboTiers: string[][];               // DIFFICULTY_TIERS groups of combos, easiest first
+}
+
+// Wait for the data files to settle before reloading - editors and copies write in bursts
+const RELOAD_DEBOUNCE_MS = 1000;
+
+const DIFFICULTY_TIERS = 5;
+
+// How many combos are dealt before a ramping game moves up a tier
+const COMBOS_PER_TIER: { [curve in DifficultyCurve]?: number } = {
+  [DifficultyCurve.RAMP]: 6,
+  [DifficultyCurve.STEEP]: 3,
+};
+
+const dictionaries: Map<string, Dictionary> = new Map();
+const reloadTimers: Map<string, NodeJS.Timeout> = new Map();
+
+// __dirname is server/dist/server/src when compiled, server/src with ts-node
+export function getDataPath(filename: string): string {
+  const serverRoot = __dirname.includes('dist')
+    ? path.resolve(__dirname, '..', '..', '..')
+    : path.resolve(__dirname, '..');
+  return path.resolve(serverRoot, 'data', filename);
+}
+
+function readList(filePath: string): string[] {
+  return parseWordList(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function getPack(id: string): DictionaryPack | undefined {
+  return DICTIONARY_PACKS.find(pack => pack.id === id);
+}
+
+export function hasDictionary(id: string): boolean {
+  return dictionaries.has(id);
+}
+
+// Current version of a dictionary, the default one if it isn't loaded
+export function getDictionary(id: string): Dictionary {
+  return dictionaries.get(id) || dictionaries.get(DEFAULT_DICTIONARY)!;
+}
+
+export function getDictionaries(): Dictionary[] {
+  return Array.from(dictionaries.values());
+}
+
+export function getDictionaryList(): DictionaryInfo[] {
+  return getDictionaries().map(d => ({ id: d.id, name: d.name }));
+}
+
+// Loads every pack that has its files, false if the default one failed
+export function loadDictionaries(): boolean {
+  for (const pack of DICTIONARY_PACKS) {
+    if (pack.id !== DEFAULT_DICTIONARY && !fs.existsSync(getDataPath(pack.words))) {
+      console.log(`Dictionary ${pack.id} skipped, ${pack.words} not found`);
+      continue;
+    }
+    reloadDictionary(pack.id);
+  }
+  return hasDictionary(DEFAULT_DICTIONARY);
+}
 
-export function loadWordList(filename: string): boolean {
+// Reads a pack's lists and swaps them in at once. On any failure the current version stays.
+export function reloadDictionary(id: string): boolean {
+  const pack = getPack(id);
+  if (!pack) {
+    return false;
+  }
+
+  const current = dictionaries.get(id);
   try {
-    // __dirname is server/dist/server/src when compiled, server/src with ts-node
-    const serverRoot = __dirname.includes('dist')
-      ? path.resolve(__dirname, '..', '..', '..')
-      : path.resolve(__dirname, '..');
-    const filePath = path.resolve(serverRoot, 'data', filename);
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const words = content.split('\n').filter(w => w.trim().length > 0);
-    wordSet = new Set(words.map(w => w.trim().toUpperCase()));
-    console.log(`Loaded ${wordSet.size} words from ${filename}`);
+    const words = readList(getDataPath(pack.words));
+    const comboList = parseComboList(fs.readFileSync(getDataPath(pack.combos), 'utf-8'));
+    const combos = comboList.combos;
+    const overlayPath = getDataPath(pack.overlay);
+    const overlayWords = fs.existsSync(overlayPath) ? readList(overlayPath) : [];
+    if (words.length === 0 || combos.length === 0) {
+      throw new Error('Word or combo list is empty');
+    }
+
+    const comboStats = comboList.stats.size === combos.length
+      ? comboList.stats
+      : computeComboStats(words, combos);
+
+    const next: Dictionary = {
+      id: pack.id,
+      name: pack.name,
+      version: (current?.version || 0) + 1,
+      loadedAt: Date.now(),
+      words: new Set([...words, ...overlayWords]),
+      combos,
+      comboStats,
+      comboTiers: buildDifficultyTiers(combos, comboStats, DIFFICULTY_TIERS),
+    };
+    dictionaries.set(id, next);
+    console.log(
+      `Loaded dictionary ${id} v${next.version}: ${next.words.size} words ` +
+      `(${overlayWords.length} overlay), ${next.combos.length} combos`
+    );
     return true;
   } catch (e) {
-    console.error(`Failed to load word list: ${filename}`, e);
+    console.error(`Failed to load dictionary ${id}, keeping ${current ? `v${current.version}` : 'it unavailable'}`, e);
     return false;
   }
 }
 
-export function loadComboList(filename: string): boolean {
+// Reloads all packs that are loaded or have since got their files, false if any failed
+export function reloadAllDictionaries(): boolean {
+  let ok = true;
+  for (const pack of DICTIONARY_PACKS) {
+    if (hasDictionary(pack.id) || fs.existsSync(getDataPath(pack.words))) {
+      ok = reloadDictionary(pack.id) && ok;
+    }
+  }
+  return ok;
+}
+
+// Reloads a pack when its word or combo list changes on disk. Overlays are left out
+// because the server writes them itself and already has those words in memory.
+export function watchDictionaries(): void {
+  const dataDir = path.dirname(getDataPath(DICTIONARY_PACKS[0].words));
   try {
-    const serverRoot = __dirname.includes('dist')
-      ? path.resolve(__dirname, '..', '..', '..')
-      : path.resolve(__dirname, '..');
-    const filePath = path.resolve(serverRoot, 'data', filename);
-    const content = fs.readFileSync(filePath, 'utf-8');
-    comboList = content.split('\n').filter(c => c.trim().length > 0).map(c => c.trim().toUpperCase());
-    console.log(`Loaded ${comboList.length} combos from ${filename}`);
-    return true;
+    fs.watch(dataDir, (_event, filename) => {
+      const pack = DICTIONARY_PACKS.find(p => p.words === filename || p.combos === filename);
+      if (!pack) return;
+
+      clearTimeout(reloadTimers.get(pack.id));
+      reloadTimers.set(pack.id, setTimeout(() => {
+        reloadTimers.delete(pack.id);
+        console.log(`${filename} changed, reloading dictionary ${pack.id}`);
+        reloadDictionary(pack.id);
+      }, RELOAD_DEBOUNCE_MS));
+    });
   } catch (e) {
-    console.error(`Failed to load combo list: ${filename}`, e);
-    return false;
+    console.error(`Failed to watch ${dataDir}, dictionary reload is manual only`, e);
   }
 }
 
-export function generateNewCombo(): string {
-  if (comboList.length === 0) {
-    return '???';
+// Adds a word to a live dictionary and its overlay file, false if it was already known
+export function addOverlayWord(dictionaryId: string, word: string): boolean {
+  const pack = getPack(dictionaryId);
+  const dictionary = dictionaries.get(dictionaryId);
+  const upperWord = word.trim().toUpperCase();
+  if (!pack || !dictionary || dictionary.words.has(upperWord)) {
+    return false;
   }
-  const index = Math.floor(Math.random() * comboList.length);
-  return comboList[index];
+
+  fs.appendFileSync(getDataPath(pack.overlay), upperWord + '\n');
+  dictionary.words.add(upperWord);
+  return true;
 }
 
-export function validateWord(
-  word: string,
-  currentCombo: string,
-  usedWords: Set<string>
-): TurnResult {
-  if (!word || word.length === 0) {
-    return TurnResult.WRONG;
+// Lowest and highest tier to pick the nth combo of a game from (n starts at 0)
+function getTierRange(curve: DifficultyCurve, comboNumber: number): [number, number] {
+  const hardest = DIFFICULTY_TIERS - 1;
+  switch (curve) {
+    case DifficultyCurve.EASY:
+      return [0, 1];
+    case DifficultyCurve.RAMP:
+    case DifficultyCurve.STEEP: {
+      const tier = Math.min(hardest, Math.floor(comboNumber / COMBOS_PER_TIER[curve]!));
+      return [tier, tier];
+    }
+    case DifficultyCurve.RANDOM:
+      return [0, hardest];
   }
+}
 
-  const upperWord = word.toUpperCase();
-
-  // Check if word was already used
-  if (usedWords.has(upperWord)) {
-    return TurnResult.ALREADY_USED;
+// Picks the nth combo of a game, skipping ones already dealt. When the tiers
+// the curve allows run out, the closest tiers with unused combos are used instead.
+export function generateNewCombo(
+  dictionary: Dictionary,
+  curve: DifficultyCurve,
+  comboNumber: number,
+  usedCombos: Set<string>,
+  random: Random
+): string {
+  if (dictionary.combos.length === 0) {
+    return '???';
   }
 
-  // Check if word contains the combo
-  if (!upperWord.includes(currentCombo.toUpperCase())) {
-    return TurnResult.WRONG;
+  const [minTier, maxTier] = getTierRange(curve, comboNumber);
+  const tiers = dictionary.comboTiers;
+  for (let spread = 0; spread < tiers.length; spread++) {
+    const candidates = tiers
+      .filter((_, i) => i >= minTier - spread && i <= maxTier + spread)
+      .flat()
+      .filter(combo => !usedCombos.has(combo));
+    if (candidates.length > 0) {
+      return candidates[Math.floor(random() * candidates.length)];
+    }
   }
 
-  // Check if word exists in dictionary
-  if (!wordSet.has(upperWord)) {
-    return TurnResult.WRONG;
+  // Every combo has been dealt - repeats are unavoidable
+  const index = Math.floor(random() * dictionary.combos.length);
+  return dictionary.combos[index];
+}
+
+function isIntInRange(value: unknown, limits: { min: number; max: number }): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= limits.min && value <= limits.max;
+}
+
+// Returns a clean copy of the settings, or null if anything is missing or out of range
+export function validateSettings(settings: unknown): GameSettings | null {
+  if (!settings || typeof settings !== 'object') {
+    return null;
   }
 
-  return TurnResult.CORRECT;
+  const s = settings as Partial<GameSettings>;
+  if (!isIntInRange(s.lives, SETTINGS_LIMITS.lives)) return null;
+  if (!isIntInRange(s.turnDuration, SETTINGS_LIMITS.turnDuration)) return null;
+  if (!isIntInRange(s.maxPlayers, SETTINGS_LIMITS.maxPlayers)) return null;
+  if (!isIntInRange(s.minWordLength, SETTINGS_LIMITS.minWordLength)) return null;
+  if (!isIntInRange(s.minTurnDuration, SETTINGS_LIMITS.minTurnDuration)) return null;
+  if (s.minTurnDuration > s.turnDuration) return null;
+  if (typeof s.comboChangePerRound !== 'boolean') return null;
+  if (typeof s.alphabetBonus !== 'boolean') return null;
+  if (!Object.values(TimerAcceleration).includes(s.timerAcceleration as TimerAcceleration)) return null;
+  if (typeof s.dictionary !== 'string' || !hasDictionary(s.dictionary)) return null;
+  if (!Object.values(DifficultyCurve).includes(s.difficultyCurve as DifficultyCurve)) return null;
+  if (s.seed !== null && !isSeed(s.seed)) return null;
+
+  return {
+    lives: s.lives,
+    turnDuration: s.turnDuration,
+    comboChangePerRound: s.comboChangePerRound,
+    maxPlayers: s.maxPlayers,
+    minWordLength: s.minWordLength,
+    timerAcceleration: s.timerAcceleration as TimerAcceleration,
+    minTurnDuration: s.minTurnDuration,
+    alphabetBonus: s.alphabetBonus,
+    dictionary: s.dictionary,
+    difficultyCurve: s.difficultyCurve as DifficultyCurve,
+    seed: s.seed,
+  };
 }
 
-export function wordExists(word: string): boolean {
-  return wordSet.has(word.toUpperCase());
+export function wordExists(dictionary: Dictionary, word: string): boolean {
+  return dictionary.words.has(word.toUpperCase());
 }
 
-export function getValidWordsForCombo(combo: string, usedWords: Set<string>): string[] {
+export function getValidWordsForCombo(dictionary: Dictionary, combo: string, usedWords: Set<string>): string[] {
   const validWords: string[] = [];
   const upperCombo = combo.toUpperCase();
 
-  for (const word of wordSet) {
+  for (const word of dictionary.words) {
     if (word.includes(upperCombo) && !usedWords.has(word)) {
       validWords.push(word);
     }
@@ -93,18 +292,22 @@ export function getValidWordsForCombo(combo: string, usedWords: Set<string>): st
   return validWords;
 }
 
-export function getRandomWordsForCombo(combo: string, count: number = 3): string[] {
+export function getRandomWordsForCombo(
+  dictionary: Dictionary,
+  combo: string,
+  count: number = 3,
+  random: Random = Math.random
+): string[] {
   const upperCombo = combo.toUpperCase();
   const matchingWords: string[] = [];
 
-  for (const word of wordSet) {
+  for (const word of dictionary.words) {
     if (word.includes(upperCombo) && word.length >= 4 && word.length <= 8) {
       matchingWords.push(word);
     }
   }
 
-  // Shuffle randomly
-  matchingWords.sort(() => Math.random() - 0.5);
+  shuffle(matchingWords, random);
 
   return matchingWords.slice(0, count);
 }
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WebSocket } from 'ws';
+import { GameSession } from './game-session';
+import { ReplayStore } from './replays';
+import { StatsStore } from './stats-store';
+import { DailyChallengeStore, dailyPlayerKey, getDailyChallenge } from './daily-challenge';
+import { loadDictionaries } from './game-logic';
+
+loadDictionaries();
+
+const statsStore: StatsStore = { recordGame: () => {}, getResults: () => [] };
+
+// Never open, so nothing is sent to it
+const closedSocket = { readyState: WebSocket.CLOSED, send: () => {} } as unknown as WebSocket;
+
+function createStores(): { replayStore: ReplayStore; dailyStore: DailyChallengeStore } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sona-mang-'));
+  return {
+    replayStore: new ReplayStore(path.join(dir, 'replays')),
+    dailyStore: new DailyChallengeStore(path.join(dir, 'daily.json')),
+  };
+}
+
+test('a finished game is saved as a replay', async () => {
+  const { replayStore } = createStores();
+  const game = new GameSession('game1', 'Mäng', 'p1', statsStore, replayStore);
+  game.addPlayer('p1', 'Mari', closedSocket);
+  game.addPlayer('p2', 'Jaan', closedSocket);
+  game.setPlayerReady('p1', true);
+  game.setPlayerReady('p2', true);
+  assert.ok(game.updateSettings({ ...game.settings, lives: 1, turnDuration: 3, minTurnDuration: 2 }));
+  assert.ok(game.startGame());
+
+  // Mari runs out of time on the first turn and Jaan wins
+  await new Promise(resolve => setTimeout(resolve, 3500));
+
+  assert.strictEqual(replayStore.list().length, 1);
+  game.cleanup();
+});
+
+test('a daily challenge is not saved as a replay', () => {
+  const { replayStore, dailyStore } = createStores();
+  const game = new GameSession('daily1', 'Päeva väljakutse', 'p1', statsStore, replayStore);
+  game.addPlayer('p1', 'Mari', closedSocket);
+  assert.ok(game.startDaily(getDailyChallenge(), dailyStore, dailyPlayerKey('127.0.0.1')));
+
+  game.removePlayer('p1');  // Leaving ends the challenge
+
+  assert.strictEqual(replayStore.list().length, 0);
+  game.cleanup();
+});
+
+test('a dropped player still takes turns and loses lives', async () => {
+  const { replayStore } = createStores();
+  const game = new GameSession('game2', 'Mäng', 'p1', statsStore, replayStore);
+  game.addPlayer('p1', 'Mari', closedSocket);
+  game.addPlayer('p2', 'Jaan', closedSocket);
+  game.setPlayerReady('p1', true);
+  game.setPlayerReady('p2', true);
+  assert.ok(game.updateSettings({ ...game.settings, lives: 2, turnDuration: 3, minTurnDuration: 2 }));
+  assert.ok(game.startGame());
+  game.markDisconnected('p2');
+
+  // Mari runs out of time and the turn goes to Jaan, who is waiting to resume
+  await new Promise(resolve => setTimeout(resolve, 3500));
+  assert.strictEqual(game.getSnapshot().currentTurnPlayerId, 'p2');
+
+  await new Promise(resolve => setTimeout(resolve, 3000));
+  assert.strictEqual(game.getPlayer('p2')?.lives, 1);
+  game.cleanup();
+});
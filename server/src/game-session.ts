@@ -1,50 +1,93 @@
 import { WebSocket } from 'ws';
-import * as fs from 'fs';
-import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import {
   PlayerState,
   GamePhase,
   TurnResult,
   MessageType,
   PlayerInfo,
-  DEFAULT_LIVES,
-  DEFAULT_TURN_DURATION,
-  MAX_PLAYERS,
+  GameSettings,
+  GameSnapshotMessage,
+  ServerMessage,
+  ChatEntry,
+  FailedComboInfo,
+  TurnHistoryEntry,
+  DictionaryInfo,
+  TimerAcceleration,
+  BotDifficulty,
+  DEFAULT_GAME_SETTINGS,
   MIN_PLAYERS,
+  MAX_SPECTATORS,
+  TIMER_ACCELERATION_STEP,
+  ALPHABET_BONUS_LETTERS,
+  ALPHABET_BONUS_MAX_LIVES,
 } from '../../shared/protocol';
 import { GameState, Player, createPlayer } from './types';
-import { generateNewCombo, validateWord, getRandomWordsForCombo } from './game-logic';
+import {
+  Dictionary,
+  getDictionary,
+  generateNewCombo,
+  validateSettings,
+  getRandomWordsForCombo,
+} from './game-logic';
+import { validateWord } from '../../shared/word-lists';
 import { broadcastToGame, sendMessage } from './messages';
+import { StatsStore, PlayerGameResult } from './stats-store';
+import { logGameEvent } from './event-log';
+import { Random, createRandom, randomSeed } from './random';
+import { DailyChallenge, DailyChallengeStore } from './daily-challenge';
+import { ReplayRecorder, ReplayStore } from './replays';
+import { BOT_PROFILES, chooseBotWord, getBotReactionMs, isBotDifficulty, pickBotName } from './bot-player';
+import { RateLimiter } from './rate-limiter';
 
-// Word guess logging
-const GUESSES_LOG_FILE = path.join(process.cwd(), 'guesses.txt');
-const WORDS_ONLY_LOG_FILE = path.join(process.cwd(), 'words.txt');
-
-function logWordGuess(playerName: string, word: string, combo: string, result: TurnResult): void {
-  const timestamp = new Date().toISOString();
-  const resultStr = TurnResult[result];
-  const line = `${timestamp} | ${playerName} | ${combo} | ${word} | ${resultStr}\n`;
+// Older chat messages are dropped, newcomers get this many in the snapshot
+const CHAT_LOG_SIZE = 50;
 
-  fs.appendFile(GUESSES_LOG_FILE, line, (err) => {
-    if (err) {
-      console.error('Failed to log word guess:', err);
-    }
-  });
-
-  // Also log just the word to words.txt
-  fs.appendFile(WORDS_ONLY_LOG_FILE, word + '\n', (err) => {
-    if (err) {
-      console.error('Failed to log word:', err);
-    }
-  });
-}
+// Per player, so one player flooding the chat doesn't silence the others
+const CHAT_MAX_MESSAGES = 5;
+const CHAT_WINDOW_MS = 10000;
 
 export class GameSession {
   private state: GameState;
   private tickInterval: NodeJS.Timeout | null = null;
+  private botTimer: NodeJS.Timeout | null = null;
   private turnStartTime: number = 0;
-
-  constructor(id: string, name: string, hostId: string) {
+  // Dictionary version this game started on, reloads only affect the next game
+  private dictionary: Dictionary = getDictionary(DEFAULT_GAME_SETTINGS.dictionary);
+  // Combos dealt this game, so none repeats and the difficulty curve knows how far in we are
+  private dealtCombos: Set<string> = new Set();
+  // Deals the combos. Bots keep using Math.random so their play can't shift the sequence.
+  private seed: number | null = null;
+  private random: Random = Math.random;
+  // Every finished turn this game, and the words tried in vain during the current one
+  private history: TurnHistoryEntry[] = [];
+  private wrongAttempts: string[] = [];
+  // Sent with GAME_OVER, kept for snapshots of the finished game
+  private failedCombos: FailedComboInfo[] = [];
+  // Words each player had rejected this game, with the combo they were played against
+  private rejectedWords: Map<string, Map<string, string>> = new Map();
+  // Set for a daily challenge: one player, fixed settings, results go to the day's ranking
+  private daily: { challenge: DailyChallenge; store: DailyChallengeStore; playerKey: string } | null = null;
+  // Records the game in progress, saved to the replay store when it is over
+  private replay: ReplayRecorder | null = null;
+  // Set for a private game: not listed, joined only with this code
+  joinCode: string | null = null;
+  // Set for a listed game that only lets in players who know it
+  password: string | null = null;
+  // Addresses and reconnect tokens of players the host banned, refused for as long as the game exists
+  readonly bannedAddresses: Set<string> = new Set();
+  readonly bannedTokens: Set<string> = new Set();
+  // Kept across games, until the session is gone
+  private chatLog: ChatEntry[] = [];
+  private chatLimiter = new RateLimiter(CHAT_MAX_MESSAGES, CHAT_WINDOW_MS);
+
+  constructor(
+    id: string,
+    name: string,
+    hostId: string,
+    private statsStore: StatsStore,
+    private replayStore: ReplayStore,
+  ) {
     this.state = {
       id,
       name,
@@ -53,11 +96,12 @@ export class GameSession {
       hostId,
       currentCombo: '',
       currentTurnPlayerId: '',
-      turnTimer: DEFAULT_TURN_DURATION,
-      turnDuration: DEFAULT_TURN_DURATION,
+      turnTimer: DEFAULT_GAME_SETTINGS.turnDuration,
+      turnDuration: DEFAULT_GAME_SETTINGS.turnDuration,
+      turnsThisRound: 0,
       usedWords: new Set(),
       turnTimerHandle: null,
-      comboChangePerRound: true,
+      settings: { ...DEFAULT_GAME_SETTINGS },
       roundStartPlayerId: '',
       failedCombos: new Set(),
     };
@@ -80,11 +124,48 @@ export class GameSession {
   }
 
   get playerCount(): number {
-    return this.state.players.size;
+    let count = 0;
+    for (const player of this.state.players.values()) {
+      if (!this.isSpectator(player)) count++;
+    }
+    return count;
+  }
+
+  get spectatorCount(): number {
+    return this.state.players.size - this.playerCount;
+  }
+
+  get maxPlayers(): number {
+    return this.state.settings.maxPlayers;
+  }
+
+  get isDaily(): boolean {
+    return this.daily !== null;
+  }
+
+  get dictionaryInfo(): DictionaryInfo {
+    const dictionary = getDictionary(this.state.settings.dictionary);
+    return { id: dictionary.id, name: dictionary.name };
+  }
+
+  get settings(): GameSettings {
+    return { ...this.state.settings };
   }
 
   getPlayersInfo(): PlayerInfo[] {
-    return Array.from(this.state.players.values()).map(p => ({
+    return Array.from(this.state.players.values())
+      .filter(p => !this.isSpectator(p))
+      .map(p => this.toPlayerInfo(p));
+  }
+
+  getSpectatorsInfo(): PlayerInfo[] {
+    return Array.from(this.state.players.values())
+      .filter(p => this.isSpectator(p))
+      .map(p => this.toPlayerInfo(p));
+  }
+
+  private toPlayerInfo(p: Player): PlayerInfo {
+    return {
       id: p.id,
       name: p.name,
       state: p.state,
@@ -92,19 +173,36 @@ export class GameSession {
       score: p.score,
       isHost: p.isHost,
       currentInput: p.currentInput,
-    }));
+      usedLetters: Array.from(p.usedLetters),
+      botDifficulty: p.botDifficulty || undefined,
+    };
+  }
+
+  private isSpectator(player: Player): boolean {
+    return player.state === PlayerState.SPECTATOR ||
+      (player.state === PlayerState.DISCONNECTED && player.stateBeforeDisconnect === PlayerState.SPECTATOR);
+  }
+
+  // Dropped players keep their place in the game while they can resume: their turns still come
+  // round and the timer takes their lives as usual
+  private isInPlay(player: Player): boolean {
+    return player.state === PlayerState.ALIVE ||
+      (player.state === PlayerState.DISCONNECTED && player.stateBeforeDisconnect === PlayerState.ALIVE);
   }
 
   addPlayer(id: string, name: string, ws: WebSocket): Player | null {
-    if (this.state.players.size >= MAX_PLAYERS) {
-      return null;
-    }
-    if (this.state.phase !== GamePhase.LOBBY && this.state.phase !== GamePhase.GAME_OVER) {
+    // Anyone arriving mid-game or to a full lobby watches as a spectator
+    const canPlay = this.playerCount < this.state.settings.maxPlayers &&
+      (this.state.phase === GamePhase.LOBBY || this.state.phase === GamePhase.GAME_OVER);
+    if (!canPlay && this.spectatorCount >= MAX_SPECTATORS) {
       return null;
     }
 
     const isHost = this.state.players.size === 0;
-    const player = createPlayer(id, name, ws, isHost);
+    const player = createPlayer(id, name, ws, isHost, canPlay ? this.state.settings.lives : 0);
+    if (!canPlay) {
+      player.state = PlayerState.SPECTATOR;
+    }
     this.state.players.set(id, player);
 
     if (isHost) {
@@ -118,11 +216,17 @@ export class GameSession {
     const player = this.state.players.get(playerId);
     if (!player) return;
 
+    // Leaving a daily challenge still uses up the day's attempt
+    if (this.daily && this.state.phase === GamePhase.PLAYING) {
+      this.endGame(null);
+    }
+
     this.state.players.delete(playerId);
 
-    // If host left, assign new host
+    // If host left, assign new host (spectators only if nobody else is left, never a bot)
     if (player.isHost && this.state.players.size > 0) {
-      const newHost = this.state.players.values().next().value;
+      const remaining = Array.from(this.state.players.values()).filter(p => !p.botDifficulty);
+      const newHost = remaining.find(p => !this.isSpectator(p)) || remaining[0];
       if (newHost) {
         newHost.isHost = true;
         this.state.hostId = newHost.id;
@@ -131,19 +235,102 @@ export class GameSession {
 
     // If game is in progress and it was current turn player
     if (this.state.phase === GamePhase.PLAYING) {
-      if (this.state.currentTurnPlayerId === playerId) {
+      const leftMidTurn = this.state.currentTurnPlayerId === playerId;
+      if (leftMidTurn) {
+        const combo = this.state.currentCombo;
         this.advanceToNextPlayer();
+        if (this.state.currentCombo !== combo) {
+          this.broadcast({ type: MessageType.NEW_COMBO, combo: this.state.currentCombo });
+        }
+      }
+      // The turn timer still runs for the player who left, and a bot up next has to be started
+      if (!this.checkWinCondition() && leftMidTurn) {
+        this.startTurnTimer();
       }
-      this.checkWinCondition();
     }
 
     // Broadcast updated player list
     this.broadcastPlayerList();
   }
 
-  setPlayerReady(playerId: string, ready: boolean): void {
+  // Keep the seat of a player whose connection dropped until they resume or the grace period ends
+  markDisconnected(playerId: string): void {
     const player = this.state.players.get(playerId);
     if (!player) return;
+    if (player.state === PlayerState.ELIMINATED || player.state === PlayerState.DISCONNECTED) return;
+
+    player.stateBeforeDisconnect = player.state;
+    player.state = PlayerState.DISCONNECTED;
+    player.currentInput = '';
+    this.broadcastPlayerList();
+  }
+
+  reconnectPlayer(playerId: string, ws: WebSocket): Player | null {
+    const player = this.state.players.get(playerId);
+    if (!player) return null;
+
+    player.ws = ws;
+    if (player.state === PlayerState.DISCONNECTED) {
+      player.state = player.stateBeforeDisconnect || PlayerState.CONNECTED;
+      player.stateBeforeDisconnect = null;
+    }
+
+    this.broadcastPlayerList();
+    return player;
+  }
+
+  // Bots take a free seat and are always ready
+  addBot(difficulty: BotDifficulty): Player | null {
+    if (this.state.phase === GamePhase.PLAYING || this.daily) return null;
+    if (!isBotDifficulty(difficulty)) return null;
+    if (this.playerCount >= this.state.settings.maxPlayers) return null;
+
+    const takenNames = new Set(Array.from(this.state.players.values()).map(p => p.name));
+    const bot = createPlayer(`bot-${uuidv4()}`, pickBotName(takenNames), null, false, this.state.settings.lives);
+    bot.state = PlayerState.READY;
+    bot.botDifficulty = difficulty;
+    this.state.players.set(bot.id, bot);
+
+    this.broadcastPlayerList();
+    return bot;
+  }
+
+  removeBot(playerId: string): boolean {
+    if (this.state.phase === GamePhase.PLAYING) return false;
+
+    const player = this.state.players.get(playerId);
+    if (!player || !player.botDifficulty) return false;
+
+    this.removePlayer(playerId);
+    return true;
+  }
+
+  isHumanPlayer(playerId: string): boolean {
+    const player = this.state.players.get(playerId);
+    return player !== undefined && !player.botDifficulty;
+  }
+
+  // Hands the host role to another connected player, spectators included
+  transferHost(playerId: string): boolean {
+    const current = this.state.players.get(this.state.hostId);
+    const next = this.state.players.get(playerId);
+    if (!next || next === current || next.botDifficulty || next.state === PlayerState.DISCONNECTED) {
+      return false;
+    }
+
+    if (current) {
+      current.isHost = false;
+    }
+    next.isHost = true;
+    this.state.hostId = next.id;
+
+    this.broadcastPlayerList();
+    return true;
+  }
+
+  setPlayerReady(playerId: string, ready: boolean): void {
+    const player = this.state.players.get(playerId);
+    if (!player || this.isSpectator(player) || player.botDifficulty) return;
 
     player.state = ready ? PlayerState.READY : PlayerState.CONNECTED;
     this.broadcastPlayerList();
@@ -152,11 +339,22 @@ export class GameSession {
   canStartGame(): boolean {
     let readyCount = 0;
     for (const player of this.state.players.values()) {
-      if (player.state === PlayerState.READY) {
+      if (player.state === PlayerState.READY || player.botDifficulty) {
         readyCount++;
       }
     }
-    return readyCount >= MIN_PLAYERS;
+    return readyCount >= (this.daily ? 1 : MIN_PLAYERS);
+  }
+
+  // Starts the day's challenge for the only player, with default settings and the day's seed
+  startDaily(challenge: DailyChallenge, store: DailyChallengeStore, playerKey: string): boolean {
+    this.daily = { challenge, store, playerKey };
+    this.state.settings = { ...DEFAULT_GAME_SETTINGS, seed: challenge.seed };
+
+    for (const player of this.state.players.values()) {
+      player.state = PlayerState.READY;
+    }
+    return this.startGame();
   }
 
   startGame(): boolean {
@@ -164,22 +362,39 @@ export class GameSession {
       return false;
     }
 
-    // Set all ready players to ALIVE
+    // Set all ready players and bots to ALIVE
     for (const player of this.state.players.values()) {
-      if (player.state === PlayerState.READY) {
+      if (player.state === PlayerState.READY || player.botDifficulty) {
         player.state = PlayerState.ALIVE;
-        player.lives = DEFAULT_LIVES;
+        player.lives = this.state.settings.lives;
         player.score = 0;
+        player.timeouts = 0;
+        player.longestWord = '';
+        player.answerTimeMs = 0;
         player.currentInput = '';
+        player.usedLetters.clear();
+      }
+
+      // Disconnected players who were ready sit this game out
+      if (player.state === PlayerState.DISCONNECTED && player.stateBeforeDisconnect === PlayerState.READY) {
+        player.stateBeforeDisconnect = PlayerState.CONNECTED;
       }
     }
 
     // Reset game state
     this.state.usedWords.clear();
     this.state.failedCombos.clear();
+    this.rejectedWords.clear();
+    this.history = [];
     this.state.phase = GamePhase.PLAYING;
-    this.state.currentCombo = generateNewCombo();
+    this.dictionary = getDictionary(this.state.settings.dictionary);
+    this.dealtCombos.clear();
+    this.seed = this.state.settings.seed ?? randomSeed();
+    this.random = createRandom(this.seed);
+    this.state.currentCombo = this.dealNextCombo();
+    this.state.turnDuration = this.state.settings.turnDuration;
     this.state.turnTimer = this.state.turnDuration;
+    this.state.turnsThisRound = 0;
 
     // Set first alive player as current turn
     for (const player of this.state.players.values()) {
@@ -190,12 +405,39 @@ export class GameSession {
       }
     }
 
+    // Record from here on, starting with the players and settings the viewer needs.
+    // Replays are listed to anyone, so private and password games are not recorded, and
+    // neither are daily challenges, which would give away the day's combos and answers.
+    const playerNames = this.getPlayersInfo().filter(p => p.state === PlayerState.ALIVE).map(p => p.name);
+    if (this.joinCode === null && this.password === null && !this.daily) {
+      this.replay = new ReplayRecorder(this.state.name, playerNames);
+      this.replay.record({
+        type: MessageType.PLAYER_LIST,
+        players: this.getPlayersInfo(),
+        spectators: this.getSpectatorsInfo(),
+        hostId: this.state.hostId,
+      });
+      this.replay.record({ type: MessageType.GAME_SETTINGS, settings: this.settings });
+    }
+
+    logGameEvent(this.state.id, 'GAME_STARTED', {
+      players: playerNames,
+      settings: this.state.settings,
+      combo: this.state.currentCombo,
+      seed: this.seed,
+      dictionary: this.dictionary.id,
+      dictionaryVersion: this.dictionary.version,
+      dictionaryWords: this.dictionary.words.size,
+      replay: this.replay?.id,
+    });
+
     // Broadcast game start
-    broadcastToGame(this.state.players, {
+    this.broadcast({
       type: MessageType.GAME_START,
       firstPlayerId: this.state.currentTurnPlayerId,
       turnDuration: this.state.turnDuration,
       combo: this.state.currentCombo,
+      seed: this.seed,
     });
 
     // Start turn timer
@@ -209,9 +451,10 @@ export class GameSession {
 
     this.turnStartTime = Date.now();
     this.state.turnTimer = this.state.turnDuration;
+    this.wrongAttempts = [];
 
     // Broadcast turn start so clients sync their timers
-    broadcastToGame(this.state.players, {
+    this.broadcast({
       type: MessageType.TURN_START,
       playerId: this.state.currentTurnPlayerId,
       duration: this.state.turnDuration,
@@ -226,6 +469,47 @@ export class GameSession {
         this.handleTimeout();
       }
     }, 100);
+
+    const currentPlayer = this.state.players.get(this.state.currentTurnPlayerId);
+    if (currentPlayer && currentPlayer.botDifficulty) {
+      this.scheduleBotTurn(currentPlayer, currentPlayer.botDifficulty);
+    }
+  }
+
+  // Bots think for a moment, then type their word one letter at a time like a human would
+  private scheduleBotTurn(bot: Player, difficulty: BotDifficulty): void {
+    const word = chooseBotWord(
+      this.dictionary,
+      difficulty,
+      this.state.currentCombo,
+      this.state.usedWords,
+      this.state.settings.minWordLength
+    );
+    if (!word) return;  // Blanked, the turn times out
+
+    let typed = 0;
+    const typeNextLetter = () => {
+      if (this.state.phase !== GamePhase.PLAYING || this.state.currentTurnPlayerId !== bot.id) return;
+
+      typed++;
+      if (typed <= word.length) {
+        this.handleTurnInput(bot.id, word.slice(0, typed));
+        this.botTimer = setTimeout(typeNextLetter, BOT_PROFILES[difficulty].keystrokeMs);
+      } else {
+        this.botTimer = null;
+        this.handleTurnSubmit(bot.id, word);
+      }
+    };
+
+    this.botTimer = setTimeout(typeNextLetter, getBotReactionMs(difficulty));
+  }
+
+  private getRemainingTime(): number {
+    if (this.state.phase !== GamePhase.PLAYING) {
+      return this.state.turnDuration;
+    }
+    const elapsed = (Date.now() - this.turnStartTime) / 1000;
+    return Math.max(0, this.state.turnDuration - elapsed);
   }
 
   private stopTurnTimer(): void {
@@ -233,6 +517,10 @@ export class GameSession {
       clearInterval(this.tickInterval);
       this.tickInterval = null;
     }
+    if (this.botTimer) {
+      clearTimeout(this.botTimer);
+      this.botTimer = null;
+    }
   }
 
   handleTurnInput(playerId: string, input: string): void {
@@ -245,7 +533,7 @@ export class GameSession {
     player.currentInput = input;
 
     // Broadcast to other players
-    broadcastToGame(this.state.players, {
+    this.broadcast({
       type: MessageType.TURN_INPUT,
       playerId,
       input,
@@ -259,23 +547,37 @@ export class GameSession {
     const player = this.state.players.get(playerId);
     if (!player || player.state !== PlayerState.ALIVE) return;
 
-    const result = validateWord(word, this.state.currentCombo, this.state.usedWords);
-
-    // Log the guess to file
-    logWordGuess(player.name, word, this.state.currentCombo, result);
+    const result = validateWord(
+      this.dictionary.words,
+      word,
+      this.state.currentCombo,
+      this.state.usedWords,
+      this.state.settings.minWordLength
+    );
+
+    logGameEvent(this.state.id, 'WORD_SUBMITTED', {
+      player: player.name,
+      bot: player.botDifficulty !== null,
+      combo: this.state.currentCombo,
+      word,
+      result,
+      latencyMs: Date.now() - this.turnStartTime,
+    });
 
     // Handle wrong answers without stopping the timer
     if (result === TurnResult.WRONG || result === TurnResult.ALREADY_USED) {
-      const elapsed = (Date.now() - this.turnStartTime) / 1000;
-      const remaining = Math.max(0, this.state.turnDuration - elapsed);
-      broadcastToGame(this.state.players, {
+      if (result === TurnResult.WRONG) {
+        this.trackRejectedWord(player, word);
+      }
+      this.wrongAttempts.push(word.toUpperCase());
+      this.broadcast({
         type: MessageType.TURN_RESULT,
         playerId: player.id,
         result,
         nextPlayerId: player.id,
         newCombo: this.state.currentCombo,
         word,
-        remainingTime: remaining,
+        remainingTime: this.getRemainingTime(),
       });
       return;
     }
@@ -283,10 +585,52 @@ export class GameSession {
     this.processTurnResult(player, result, word);
   }
 
+  // Only words that failed the dictionary check alone are worth reporting
+  private trackRejectedWord(player: Player, word: string): void {
+    if (player.botDifficulty) return;
+
+    const upperWord = word.toUpperCase();
+    if (upperWord.length < this.state.settings.minWordLength) return;
+    if (!upperWord.includes(this.state.currentCombo)) return;
+
+    let words = this.rejectedWords.get(player.id);
+    if (!words) {
+      words = new Map();
+      this.rejectedWords.set(player.id, words);
+    }
+    words.set(upperWord, this.state.currentCombo);
+  }
+
+  // Returns the combo a player's rejected word was played against and forgets it,
+  // so each rejection can only be reported once. Null if the player never had it rejected.
+  takeRejectedWord(playerId: string, word: string): { combo: string; dictionaryId: string } | null {
+    const words = this.rejectedWords.get(playerId);
+    const upperWord = word.toUpperCase();
+    const combo = words?.get(upperWord);
+    if (!words || combo === undefined) {
+      return null;
+    }
+    words.delete(upperWord);
+    return { combo, dictionaryId: this.dictionary.id };
+  }
+
+  private dealNextCombo(): string {
+    const combo = generateNewCombo(
+      this.dictionary,
+      this.state.settings.difficultyCurve,
+      this.dealtCombos.size,
+      this.dealtCombos,
+      this.random
+    );
+    this.dealtCombos.add(combo);
+    return combo;
+  }
+
   private handleTimeout(): void {
     this.stopTurnTimer();  // Stop immediately to prevent multiple triggers
     const player = this.state.players.get(this.state.currentTurnPlayerId);
     if (player) {
+      logGameEvent(this.state.id, 'TURN_TIMEOUT', { player: player.name, combo: this.state.currentCombo });
       this.processTurnResult(player, TurnResult.TIMEOUT, '');
     }
   }
@@ -294,10 +638,25 @@ export class GameSession {
   private processTurnResult(player: Player, result: TurnResult, word: string): void {
     this.stopTurnTimer();
 
+    this.history.push({
+      combo: this.state.currentCombo,
+      playerName: player.name,
+      word: result === TurnResult.CORRECT ? word.toUpperCase() : null,
+      timeMs: Date.now() - this.turnStartTime,
+      wrongAttempts: this.wrongAttempts,
+    });
+
     switch (result) {
       case TurnResult.CORRECT:
         player.score++;
         this.state.usedWords.add(word.toUpperCase());
+        if (word.length > player.longestWord.length) {
+          player.longestWord = word.toUpperCase();
+        }
+        player.answerTimeMs += Date.now() - this.turnStartTime;
+        if (this.state.settings.alphabetBonus) {
+          this.trackUsedLetters(player, word);
+        }
         player.currentInput = '';
         this.advanceToNextPlayer(true);
         break;
@@ -305,30 +664,40 @@ export class GameSession {
       case TurnResult.TIMEOUT:
         // Track the failed combo
         this.state.failedCombos.add(this.state.currentCombo);
+        player.timeouts++;
         player.lives--;
         if (player.lives <= 0) {
-          player.state = PlayerState.ELIMINATED;
-          broadcastToGame(this.state.players, {
+          if (player.state === PlayerState.DISCONNECTED) {
+            player.stateBeforeDisconnect = PlayerState.ELIMINATED;
+          } else {
+            player.state = PlayerState.ELIMINATED;
+          }
+          logGameEvent(this.state.id, 'PLAYER_ELIMINATED', { player: player.name });
+          this.broadcast({
             type: MessageType.PLAYER_ELIMINATED,
             playerId: player.id,
           });
         }
         player.currentInput = '';
-        this.advanceToNextPlayer(false);  // Keep same combo on failure
+        // Keep same combo on failure unless the combo should change every turn
+        this.advanceToNextPlayer(!this.state.settings.comboChangePerRound);
         break;
     }
 
+    this.accelerateTurnTimer(result);
+
     // Broadcast player update
-    broadcastToGame(this.state.players, {
+    this.broadcast({
       type: MessageType.PLAYER_UPDATE,
       playerId: player.id,
       lives: player.lives,
       score: player.score,
       state: player.state,
+      usedLetters: Array.from(player.usedLetters),
     });
 
     // Broadcast turn result
-    broadcastToGame(this.state.players, {
+    this.broadcast({
       type: MessageType.TURN_RESULT,
       playerId: player.id,
       result,
@@ -346,8 +715,55 @@ export class GameSession {
     this.startTurnTimer();
   }
 
+  // Alphabet bonus: once every letter has been used, grant a life and start over
+  private trackUsedLetters(player: Player, word: string): void {
+    for (const letter of word.toUpperCase()) {
+      if (ALPHABET_BONUS_LETTERS.includes(letter)) {
+        player.usedLetters.add(letter);
+      }
+    }
+
+    if (player.usedLetters.size >= ALPHABET_BONUS_LETTERS.length) {
+      player.usedLetters.clear();
+      player.lives = Math.min(ALPHABET_BONUS_MAX_LIVES, player.lives + 1);
+    }
+  }
+
+  // Bomb mode: shrink the turn timer as the game goes on, never below the configured floor
+  private accelerateTurnTimer(result: TurnResult): void {
+    const { timerAcceleration, minTurnDuration } = this.state.settings;
+    let shrink = false;
+
+    if (timerAcceleration === TimerAcceleration.PER_WORD) {
+      shrink = result === TurnResult.CORRECT;
+    } else if (timerAcceleration === TimerAcceleration.PER_ROUND) {
+      this.state.turnsThisRound++;
+      if (this.state.turnsThisRound >= this.getAliveCount()) {
+        this.state.turnsThisRound = 0;
+        shrink = true;
+      }
+    }
+
+    if (shrink) {
+      this.state.turnDuration = Math.max(minTurnDuration, this.state.turnDuration - TIMER_ACCELERATION_STEP);
+    }
+  }
+
+  private getAliveCount(): number {
+    let aliveCount = 0;
+    for (const player of this.state.players.values()) {
+      if (this.isInPlay(player)) {
+        aliveCount++;
+      }
+    }
+    return aliveCount;
+  }
+
   private advanceToNextPlayer(mayChangeCombo: boolean = false): void {
-    const playerIds = Array.from(this.state.players.keys());
+    // Spectators never take turns
+    const playerIds = Array.from(this.state.players.values())
+      .filter(p => !this.isSpectator(p))
+      .map(p => p.id);
     if (playerIds.length === 0) return;
 
     const currentIndex = playerIds.indexOf(this.state.currentTurnPlayerId);
@@ -358,10 +774,10 @@ export class GameSession {
       const nextPlayerId = playerIds[nextIndex];
       const nextPlayer = this.state.players.get(nextPlayerId);
 
-      if (nextPlayer && nextPlayer.state === PlayerState.ALIVE) {
+      if (nextPlayer && this.isInPlay(nextPlayer)) {
         // Check if round start player is still alive
         const roundStartPlayer = this.state.players.get(this.state.roundStartPlayerId);
-        if (!roundStartPlayer || roundStartPlayer.state !== PlayerState.ALIVE) {
+        if (!roundStartPlayer || !this.isInPlay(roundStartPlayer)) {
           // Round start player eliminated, update to next alive player
           this.state.roundStartPlayerId = nextPlayerId;
         }
@@ -373,7 +789,7 @@ export class GameSession {
         // - forceChange (correct answer): always change combo
         // - timeout: only change if everyone has had a turn with this combo
         if (mayChangeCombo || everyoneTriedCombo) {
-          this.state.currentCombo = generateNewCombo();
+          this.state.currentCombo = this.dealNextCombo();
           this.state.roundStartPlayerId = nextPlayerId;
         }
 
@@ -396,20 +812,20 @@ export class GameSession {
     let lastAlivePlayer: Player | null = null;
 
     for (const player of this.state.players.values()) {
-      if (player.state === PlayerState.ALIVE) {
+      if (this.isInPlay(player)) {
         aliveCount++;
         lastAlivePlayer = player;
       }
     }
 
     // Single player: game over when eliminated
-    if (this.state.players.size === 1 && aliveCount === 0) {
+    if (this.playerCount === 1 && aliveCount === 0) {
       this.endGame(null);
       return true;
     }
 
     // Multiplayer: game over when 1 or fewer remain
-    if (this.state.players.size > 1 && aliveCount <= 1) {
+    if (this.playerCount > 1 && aliveCount <= 1) {
       this.endGame(lastAlivePlayer?.id || null);
       return true;
     }
@@ -422,19 +838,107 @@ export class GameSession {
     this.state.phase = GamePhase.GAME_OVER;
 
     // Build failed combos with example words
-    const failedCombosWithWords: { combo: string; exampleWords: string[] }[] = [];
+    this.failedCombos = [];
     for (const combo of this.state.failedCombos) {
-      failedCombosWithWords.push({
+      this.failedCombos.push({
         combo,
-        exampleWords: getRandomWordsForCombo(combo, 3),
+        exampleWords: getRandomWordsForCombo(this.dictionary, combo, 3, this.random),
       });
     }
 
-    broadcastToGame(this.state.players, {
+    this.broadcast({
       type: MessageType.GAME_OVER,
       winnerId,
-      failedCombos: failedCombosWithWords,
+      failedCombos: this.failedCombos,
+      history: this.history,
+      replayId: this.replay?.id,
     });
+
+    logGameEvent(this.state.id, 'GAME_OVER', {
+      winner: winnerId ? this.state.players.get(winnerId)?.name ?? null : null,
+      scores: this.getPlayersInfo().map(p => ({ player: p.name, score: p.score })),
+      failedCombos: Array.from(this.state.failedCombos),
+    });
+    if (this.daily) {
+      this.recordDailyResult();
+    } else {
+      this.recordResults(winnerId);
+    }
+
+    this.promoteSpectators();
+    this.broadcastPlayerList();
+
+    if (this.replay) {
+      this.replayStore.save(this.replay.finish());
+      this.replay = null;
+    }
+  }
+
+  // Persist the results of everyone who played (bots and spectators don't count)
+  private recordResults(winnerId: string | null): void {
+    const finishedAt = Date.now();
+    const results: PlayerGameResult[] = [];
+
+    for (const player of this.state.players.values()) {
+      const state = player.state === PlayerState.DISCONNECTED ? player.stateBeforeDisconnect : player.state;
+      if (player.botDifficulty) continue;
+      if (state !== PlayerState.ALIVE && state !== PlayerState.ELIMINATED) continue;
+
+      results.push({
+        gameId: this.state.id,
+        finishedAt,
+        name: player.name,
+        won: player.id === winnerId,
+        wordsFound: player.score,
+        timeouts: player.timeouts,
+        longestWord: player.longestWord,
+        answerTimeMs: player.answerTimeMs,
+      });
+    }
+
+    this.statsStore.recordGame(results);
+  }
+
+  // Daily challenge results only go to the day's ranking, not to the regular stats
+  private recordDailyResult(): void {
+    if (!this.daily) return;
+    const { challenge, store, playerKey } = this.daily;
+
+    for (const player of this.state.players.values()) {
+      if (player.botDifficulty) continue;
+
+      const rank = store.record(challenge.date, {
+        name: player.name,
+        playerKey,
+        score: player.score,
+        answerTimeMs: player.answerTimeMs,
+        finishedAt: Date.now(),
+      });
+
+      if (!player.ws) continue;
+      sendMessage(player.ws, {
+        type: MessageType.DAILY_RESULT,
+        date: challenge.date,
+        score: player.score,
+        rank,
+        entries: store.getRanking(challenge.date),
+      });
+    }
+  }
+
+  // Spectators take any free seats once the game is no longer running
+  private promoteSpectators(): void {
+    for (const player of this.state.players.values()) {
+      if (!this.isSpectator(player)) continue;
+      if (this.playerCount >= this.state.settings.maxPlayers) break;
+
+      if (player.state === PlayerState.DISCONNECTED) {
+        player.stateBeforeDisconnect = PlayerState.CONNECTED;
+      } else {
+        player.state = PlayerState.CONNECTED;
+      }
+      player.lives = this.state.settings.lives;
+    }
   }
 
   returnToLobby(): void {
@@ -446,33 +950,121 @@ export class GameSession {
     this.state.roundStartPlayerId = '';
 
     for (const player of this.state.players.values()) {
-      player.state = PlayerState.CONNECTED;
-      player.lives = DEFAULT_LIVES;
+      if (this.isSpectator(player)) continue;
+
+      if (player.state === PlayerState.DISCONNECTED) {
+        player.stateBeforeDisconnect = PlayerState.CONNECTED;
+      } else {
+        player.state = player.botDifficulty ? PlayerState.READY : PlayerState.CONNECTED;
+      }
+      player.lives = this.state.settings.lives;
       player.score = 0;
       player.currentInput = '';
+      player.usedLetters.clear();
     }
 
+    this.promoteSpectators();
     this.broadcastPlayerList();
   }
 
   setComboChangePerRound(enabled: boolean): void {
-    this.state.comboChangePerRound = enabled;
+    this.state.settings.comboChangePerRound = enabled;
   }
 
   get comboChangePerRound(): boolean {
-    return this.state.comboChangePerRound;
+    return this.state.settings.comboChangePerRound;
+  }
+
+  // Validate and apply new settings from the host, then broadcast them to everyone
+  updateSettings(settings: GameSettings): boolean {
+    if (this.state.phase === GamePhase.PLAYING || this.daily) {
+      return false;
+    }
+
+    const validated = validateSettings(settings);
+    if (!validated || validated.maxPlayers < this.playerCount) {
+      return false;
+    }
+
+    this.state.settings = validated;
+
+    // Keep lobby lives display in sync with the new setting
+    for (const player of this.state.players.values()) {
+      if (player.state === PlayerState.CONNECTED || player.state === PlayerState.READY) {
+        player.lives = validated.lives;
+      }
+    }
+
+    this.broadcast({
+      type: MessageType.GAME_SETTINGS,
+      settings: this.settings,
+    });
+    this.broadcastPlayerList();
+
+    return true;
+  }
+
+  // Returns false if the player can't chat or is sending too fast
+  addChatMessage(playerId: string, text: string): boolean {
+    const player = this.state.players.get(playerId);
+    if (!player || player.botDifficulty) return false;
+    if (this.chatLimiter.isLimited(playerId)) return false;
+    this.chatLimiter.record(playerId);
+
+    const entry: ChatEntry = { playerId, playerName: player.name, text, time: Date.now() };
+    this.chatLog.push(entry);
+    if (this.chatLog.length > CHAT_LOG_SIZE) {
+      this.chatLog.shift();
+    }
+
+    // Not through broadcast(), chat stays out of the public replays
+    broadcastToGame(this.state.players, { type: MessageType.CHAT, entry });
+    return true;
   }
 
-  private broadcastPlayerList(): void {
-    broadcastToGame(this.state.players, {
+  getSnapshot(): GameSnapshotMessage {
+    const gameOver = this.state.phase === GamePhase.GAME_OVER;
+    return {
+      type: MessageType.GAME_SNAPSHOT,
+      gameName: this.state.name,
+      seed: this.seed ?? undefined,
+      phase: this.state.phase,
+      players: this.getPlayersInfo(),
+      spectators: this.getSpectatorsInfo(),
+      hostId: this.state.hostId,
+      settings: this.settings,
+      combo: this.state.currentCombo,
+      currentTurnPlayerId: this.state.currentTurnPlayerId,
+      turnDuration: this.state.turnDuration,
+      remainingTime: this.getRemainingTime(),
+      usedWords: Array.from(this.state.usedWords),
+      chat: this.chatLog,
+      failedCombos: gameOver ? this.failedCombos : undefined,
+      history: gameOver ? this.history : undefined,
+    };
+  }
+
+  // Everything broadcast goes into the replay while a game is being recorded
+  private broadcast(message: ServerMessage): void {
+    broadcastToGame(this.state.players, message);
+    this.replay?.record(message);
+  }
+
+  broadcastPlayerList(): void {
+    this.broadcast({
       type: MessageType.PLAYER_LIST,
       players: this.getPlayersInfo(),
+      spectators: this.getSpectatorsInfo(),
       hostId: this.state.hostId,
     });
   }
 
+  // Bots alone don't keep a game alive
   isEmpty(): boolean {
-    return this.state.players.size === 0;
+    for (const player of this.state.players.values()) {
+      if (!player.botDifficulty) return false;
+    }
+    return true;
   }
 
   getPlayer(playerId: string): Player | undefined {
@@ -485,5 +1077,6 @@ export class GameSession {
 
   cleanup(): void {
     this.stopTurnTimer();
+    this.replay = null;
   }
 }
@@ -1,17 +1,47 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { createServer } from 'http';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { readFileSync, existsSync, statSync } from 'fs';
 import { join, extname } from 'path';
 import {
   MessageType,
   ClientMessage,
   GamePhase,
+  GameSettings,
+  BotDifficulty,
+  LeaderboardCategory,
+  LeaderboardWindow,
+  DEFAULT_DICTIONARY,
+  MAX_PASSWORD_LENGTH,
+  MAX_CHAT_LENGTH,
 } from '../../shared/protocol';
 import { LobbyManager } from './lobby-manager';
-import { loadWordList, loadComboList } from './game-logic';
+import { JsonFileStatsStore, getPlayerStats } from './stats-store';
+import { getLeaderboard, isLeaderboardCategory, isLeaderboardWindow } from './leaderboard';
+import { WordReportStore } from './word-reports';
+import { DailyChallengeStore } from './daily-challenge';
+import { ReplayStore } from './replays';
+import {
+  loadDictionaries,
+  reloadAllDictionaries,
+  watchDictionaries,
+  getDictionaries,
+  getDictionaryList,
+  addOverlayWord,
+} from './game-logic';
 import { parseMessage, sendMessage } from './messages';
+import { isSeed } from './random';
 
 const PORT = parseInt(process.env.PORT || '8080', 10);
+const STATS_FILE = process.env.STATS_FILE || join(process.cwd(), 'stats.json');
+const REPORTS_FILE = process.env.REPORTS_FILE || join(process.cwd(), 'word-reports.json');
+const DAILY_FILE = process.env.DAILY_FILE || join(process.cwd(), 'daily.json');
+const REPLAY_DIR = process.env.REPLAY_DIR || join(process.cwd(), 'replays');
+// Moderator API is disabled unless a token is configured
+const MODERATOR_TOKEN = process.env.MODERATOR_TOKEN || '';
+const MAX_REQUEST_BODY_BYTES = 4096;
+// Set to 1 behind a reverse proxy, which puts the client's address in X-Forwarded-For.
+// Otherwise every client would have the proxy's address, and a ban by address would shut out everyone.
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
 
 // Static file serving
 // __dirname is server/dist/server/src when compiled, server/src with ts-node
@@ -36,17 +66,36 @@ const MIME_TYPES: Record<string, string> = {
 
 // Initialize word lists
 console.log('Loading word lists...');
-if (!loadWordList('sonad4.txt')) {
-  console.error('Failed to load word list. Exiting.');
-  process.exit(1);
-}
-if (!loadComboList('kombinatsioonid4.txt')) {
-  console.error('Failed to load combo list. Exiting.');
+if (!loadDictionaries()) {
+  console.error('Failed to load word lists. Exiting.');
   process.exit(1);
 }
+watchDictionaries();
 
 // Create HTTP server for static files
 const server = createServer((req, res) => {
+  // JSON API
+  if (req.url?.startsWith('/api/leaderboard')) {
+    handleLeaderboardRequest(new URL(req.url, 'http://localhost'), res);
+    return;
+  }
+  if (req.url?.startsWith('/api/reports')) {
+    handleReportsRequest(req, res);
+    return;
+  }
+  if (req.url?.startsWith('/api/replays')) {
+    handleReplaysRequest(req, res);
+    return;
+  }
+  if (req.url === '/api/status') {
+    handleStatusRequest(res);
+    return;
+  }
+  if (req.url === '/api/dictionary/reload') {
+    handleDictionaryReloadRequest(req, res);
+    return;
+  }
+
   let filePath = join(STATIC_DIR, req.url === '/' ? 'index.html' : req.url || '');
 
   // Security: prevent directory traversal
@@ -80,17 +129,199 @@ const server = createServer((req, res) => {
   }
 });
 
+// GET /api/leaderboard?category=WINS&window=WEEK
+function handleLeaderboardRequest(url: URL, res: ServerResponse): void {
+  const category = url.searchParams.get('category') || LeaderboardCategory.WINS;
+  const window = url.searchParams.get('window') || LeaderboardWindow.ALL_TIME;
+
+  if (!isLeaderboardCategory(category) || !isLeaderboardWindow(window)) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Invalid category or window' }));
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ category, window, entries: getLeaderboard(statsStore, category, window) }));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+      if (body.length > MAX_REQUEST_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new Error('Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Moderator routes need "Authorization: Bearer <MODERATOR_TOKEN>". Sends the error response if not.
+function checkModerator(req: IncomingMessage, res: ServerResponse): boolean {
+  if (!MODERATOR_TOKEN) {
+    sendJson(res, 403, { error: 'Moderation is disabled' });
+    return false;
+  }
+  if (req.headers.authorization !== `Bearer ${MODERATOR_TOKEN}`) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return false;
+  }
+  return true;
+}
+
+function getDictionaryStatus() {
+  return getDictionaries().map(dictionary => ({
+    id: dictionary.id,
+    name: dictionary.name,
+    version: dictionary.version,
+    loadedAt: new Date(dictionary.loadedAt).toISOString(),
+    words: dictionary.words.size,
+    combos: dictionary.combos.length,
+  }));
+}
+
+// GET /api/status
+function handleStatusRequest(res: ServerResponse): void {
+  sendJson(res, 200, {
+    uptimeSeconds: Math.round(process.uptime()),
+    dictionaries: getDictionaryStatus(),
+  });
+}
+
+// POST /api/dictionary/reload (moderator) - games in progress keep their current version
+function handleDictionaryReloadRequest(req: IncomingMessage, res: ServerResponse): void {
+  if (!checkModerator(req, res)) return;
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  const reloaded = reloadAllDictionaries();
+  sendJson(res, reloaded ? 200 : 500, { reloaded, dictionaries: getDictionaryStatus() });
+}
+
+// Recorded games
+//   GET /api/replays       newest first, without the messages
+//   GET /api/replays/<id>  the whole replay
+function handleReplaysRequest(req: IncomingMessage, res: ServerResponse): void {
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  const pathname = new URL(req.url || '', 'http://localhost').pathname;
+  if (pathname === '/api/replays') {
+    sendJson(res, 200, { replays: replayStore.list() });
+    return;
+  }
+
+  const id = pathname.slice('/api/replays/'.length);
+  replayStore.read(id).then((content) => {
+    if (content === null) {
+      sendJson(res, 404, { error: 'Replay not found' });
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(content);
+  }).catch((err: Error) => {
+    console.error(`Failed to read replay ${id}:`, err);
+    sendJson(res, 500, { error: 'Failed to read replay' });
+  });
+}
+
+// Moderator review queue
+//   GET  /api/reports         pending reports, most reported first
+//   POST /api/reports/accept  {"word": "...", "dictionary": "et"} adds the word to the dictionary's overlay
+//   POST /api/reports/reject  {"word": "...", "dictionary": "et"} drops the report
+// The dictionary defaults to the Estonian one.
+function handleReportsRequest(req: IncomingMessage, res: ServerResponse): void {
+  if (!checkModerator(req, res)) return;
+
+  const pathname = new URL(req.url || '', 'http://localhost').pathname;
+
+  if (req.method === 'GET' && pathname === '/api/reports') {
+    sendJson(res, 200, { reports: wordReports.getPending() });
+    return;
+  }
+
+  const action = pathname === '/api/reports/accept' ? 'accept'
+    : pathname === '/api/reports/reject' ? 'reject'
+    : null;
+  if (req.method !== 'POST' || !action) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  readJsonBody(req)
+    .then((body) => {
+      const { word, dictionary = DEFAULT_DICTIONARY } = (body || {}) as { word?: unknown; dictionary?: unknown };
+      if (typeof word !== 'string' || word.trim().length === 0 || typeof dictionary !== 'string') {
+        sendJson(res, 400, { error: 'Word required' });
+        return;
+      }
+
+      const upperWord = word.trim().toUpperCase();
+      if (!wordReports.isPending(dictionary, upperWord)) {
+        sendJson(res, 404, { error: 'No pending report for this word' });
+        return;
+      }
+
+      // The report stays pending if the word can't be written, so the moderator can try again
+      let added = false;
+      try {
+        added = action === 'accept' && addOverlayWord(dictionary, upperWord);
+      } catch (err) {
+        console.error(`Failed to add ${upperWord} to the ${dictionary} overlay:`, err);
+        sendJson(res, 500, { error: 'Failed to save the word' });
+        return;
+      }
+
+      wordReports.resolve(dictionary, upperWord);
+      console.log(`Word report ${action}ed: ${upperWord} (${dictionary})`);
+      sendJson(res, 200, { word: upperWord, dictionary, action, added });
+    })
+    .catch((err: Error) => sendJson(res, 400, { error: err.message }));
+}
+
 // Create WebSocket server attached to HTTP server
 const wss = new WebSocketServer({ server });
-const lobbyManager = new LobbyManager();
+const statsStore = new JsonFileStatsStore(STATS_FILE);
+const dailyStore = new DailyChallengeStore(DAILY_FILE);
+const replayStore = new ReplayStore(REPLAY_DIR);
+const lobbyManager = new LobbyManager(statsStore, dailyStore, replayStore);
+const wordReports = new WordReportStore(REPORTS_FILE);
 
 server.listen(PORT, () => {
   console.log(`Sona Mang server listening on port ${PORT}`);
   console.log(`Static files served from: ${STATIC_DIR}`);
 });
 
-wss.on('connection', (ws: WebSocket) => {
-  const playerId = lobbyManager.registerClient(ws);
+function getClientAddress(req: IncomingMessage): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') {
+    // Our proxy adds the address it saw last, anything before it came from the client
+    const addresses = forwarded.split(',');
+    return addresses[addresses.length - 1].trim();
+  }
+  return req.socket.remoteAddress || '';
+}
+
+wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+  const playerId = lobbyManager.registerClient(ws, getClientAddress(req));
   console.log(`Client connected: ${playerId}`);
 
   ws.on('message', (data: Buffer) => {
@@ -103,10 +334,11 @@ wss.on('connection', (ws: WebSocket) => {
     handleMessage(ws, message);
   });
 
-  ws.on('close', () => {
+  ws.on('close', (code: number) => {
     const client = lobbyManager.getClientInfo(ws);
-    console.log(`Client disconnected: ${client?.playerId}`);
-    lobbyManager.unregisterClient(ws);
+    console.log(`Client disconnected: ${client?.playerId} (code ${code})`);
+    // 1000 means the client left on purpose, anything else may be a dropped connection
+    lobbyManager.unregisterClient(ws, code === 1000);
   });
 
   ws.on('error', (error) => {
@@ -127,19 +359,51 @@ function handleMessage(ws: WebSocket, message: ClientMessage): void {
       break;
 
     case MessageType.CREATE_GAME:
-      handleCreateGame(ws, message.hostName, message.gameName);
+      handleCreateGame(ws, message.hostName, message.gameName, message.isPrivate === true, message.password);
+      break;
+
+    case MessageType.JOIN_BY_CODE:
+      handleJoinByCode(ws, message.code, message.playerName, message.previousToken);
       break;
 
     case MessageType.JOIN_REQUEST:
-      handleJoinRequest(ws, message.gameId, message.playerName);
+      handleJoinRequest(ws, message.gameId, message.playerName, message.password, message.previousToken);
+      break;
+
+    case MessageType.RESUME_SESSION:
+      handleResumeSession(ws, message.reconnectToken);
       break;
 
     case MessageType.PLAYER_READY:
       handlePlayerReady(ws, message.ready);
       break;
 
+    case MessageType.GAME_SETTINGS:
+      handleGameSettings(ws, message.settings);
+      break;
+
+    case MessageType.ADD_BOT:
+      handleAddBot(ws, message.difficulty);
+      break;
+
+    case MessageType.REMOVE_BOT:
+      handleRemoveBot(ws, message.playerId);
+      break;
+
+    case MessageType.KICK_PLAYER:
+      handleKickPlayer(ws, message.playerId, false);
+      break;
+
+    case MessageType.BAN_PLAYER:
+      handleKickPlayer(ws, message.playerId, true);
+      break;
+
+    case MessageType.TRANSFER_HOST:
+      handleTransferHost(ws, message.playerId);
+      break;
+
     case MessageType.START_GAME_REQUEST:
-      handleStartGame(ws);
+      handleStartGame(ws, message.settings);
       break;
 
     case MessageType.RETURN_TO_LOBBY:
@@ -154,6 +418,30 @@ function handleMessage(ws: WebSocket, message: ClientMessage): void {
       handleTurnSubmit(ws, message.word);
       break;
 
+    case MessageType.REQUEST_SNAPSHOT:
+      handleRequestSnapshot(ws);
+      break;
+
+    case MessageType.GET_STATS:
+      handleGetStats(ws, message.playerName);
+      break;
+
+    case MessageType.GET_LEADERBOARD:
+      handleGetLeaderboard(ws, message.category, message.window);
+      break;
+
+    case MessageType.REPORT_WORD:
+      handleReportWord(ws, message.word);
+      break;
+
+    case MessageType.START_DAILY:
+      handleStartDaily(ws, message.playerName);
+      break;
+
+    case MessageType.CHAT:
+      handleChat(ws, message.text);
+      break;
+
     case MessageType.PING:
       sendMessage(ws, { type: MessageType.PONG });
       break;
@@ -171,8 +459,19 @@ function handleListGames(ws: WebSocket): void {
   });
 }
 
-function handleCreateGame(ws: WebSocket, hostName: string, gameName: string): void {
-  const game = lobbyManager.createGame(ws, hostName, gameName);
+function handleCreateGame(
+  ws: WebSocket,
+  hostName: string,
+  gameName: string,
+  isPrivate: boolean,
+  password: string | undefined,
+): void {
+  if (password !== undefined && (typeof password !== 'string' || password.length > MAX_PASSWORD_LENGTH)) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Invalid password' });
+    return;
+  }
+
+  const game = lobbyManager.createGame(ws, hostName, gameName, isPrivate, password || null);
   if (!game) {
     sendMessage(ws, {
       type: MessageType.JOIN_REJECT,
@@ -182,23 +481,44 @@ function handleCreateGame(ws: WebSocket, hostName: string, gameName: string): vo
   }
 
   const client = lobbyManager.getClientInfo(ws);
-  if (!client) return;
+  if (!client || !client.reconnectToken) return;
 
   sendMessage(ws, {
     type: MessageType.JOIN_ACCEPT,
     playerId: client.playerId,
     gameId: game.id,
+    reconnectToken: client.reconnectToken,
+    dictionaries: getDictionaryList(),
+    joinCode: game.joinCode || undefined,
   });
 
   sendMessage(ws, {
     type: MessageType.PLAYER_LIST,
     players: game.getPlayersInfo(),
+    spectators: game.getSpectatorsInfo(),
     hostId: game.hostId,
   });
+
+  sendMessage(ws, {
+    type: MessageType.GAME_SETTINGS,
+    settings: game.settings,
+  });
 }
 
-function handleJoinRequest(ws: WebSocket, gameId: string, playerName: string): void {
-  const result = lobbyManager.joinGame(ws, gameId, playerName);
+function handleJoinRequest(
+  ws: WebSocket,
+  gameId: string,
+  playerName: string,
+  password: string | undefined,
+  previousToken: string | undefined,
+): void {
+  const result = lobbyManager.joinGame(
+    ws,
+    gameId,
+    playerName,
+    typeof password === 'string' ? password : undefined,
+    typeof previousToken === 'string' ? previousToken : undefined,
+  );
 
   if (!result.success) {
     sendMessage(ws, {
@@ -208,28 +528,81 @@ function handleJoinRequest(ws: WebSocket, gameId: string, playerName: string): v
     return;
   }
 
+  sendJoinedGame(ws, gameId);
+}
+
+function handleJoinByCode(ws: WebSocket, code: string, playerName: string, previousToken: string | undefined): void {
+  if (typeof code !== 'string') {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Join code required' });
+    return;
+  }
+
+  const result = lobbyManager.joinGameByCode(
+    ws,
+    code,
+    playerName,
+    typeof previousToken === 'string' ? previousToken : undefined,
+  );
+
+  if (!result.success || !result.gameId) {
+    sendMessage(ws, {
+      type: MessageType.JOIN_REJECT,
+      reason: result.reason || 'Failed to join',
+    });
+    return;
+  }
+
+  sendJoinedGame(ws, result.gameId);
+}
+
+// Replies to a successful join and lets everyone in the game know
+function sendJoinedGame(ws: WebSocket, gameId: string): void {
   const client = lobbyManager.getClientInfo(ws);
   const game = lobbyManager.getGame(gameId);
-  if (!client || !game) return;
+  if (!client || !client.reconnectToken || !game) return;
 
   sendMessage(ws, {
     type: MessageType.JOIN_ACCEPT,
     playerId: client.playerId,
     gameId: game.id,
+    reconnectToken: client.reconnectToken,
+    dictionaries: getDictionaryList(),
+    joinCode: game.joinCode || undefined,
   });
 
-  // Broadcast updated player list to all players in game
-  const players = game.getPlayersInfo();
-  for (const player of game.getPlayersInfo()) {
-    const playerData = game.getPlayer(player.id);
-    if (playerData) {
-      sendMessage(playerData.ws, {
-        type: MessageType.PLAYER_LIST,
-        players,
-        hostId: game.hostId,
-      });
-    }
+  // Late joiners get the whole current state in one go
+  sendMessage(ws, game.getSnapshot());
+
+  // Broadcast updated player list to everyone in game, spectators included
+  game.broadcastPlayerList();
+}
+
+function handleResumeSession(ws: WebSocket, reconnectToken: string): void {
+  const result = lobbyManager.resumeSession(ws, reconnectToken);
+
+  if (!result.success) {
+    sendMessage(ws, {
+      type: MessageType.JOIN_REJECT,
+      reason: result.reason || 'Failed to resume',
+    });
+    return;
   }
+
+  const client = lobbyManager.getClientInfo(ws);
+  const game = lobbyManager.getGameForClient(ws);
+  if (!client || !client.reconnectToken || !game) return;
+
+  sendMessage(ws, {
+    type: MessageType.JOIN_ACCEPT,
+    playerId: client.playerId,
+    gameId: game.id,
+    reconnectToken: client.reconnectToken,
+    dictionaries: getDictionaryList(),
+    joinCode: game.joinCode || undefined,
+  });
+
+  // Full state so the client can drop straight back into the current view
+  sendMessage(ws, game.getSnapshot());
 }
 
 function handlePlayerReady(ws: WebSocket, ready: boolean): void {
@@ -242,7 +615,86 @@ function handlePlayerReady(ws: WebSocket, ready: boolean): void {
   game.setPlayerReady(client.playerId, ready);
 }
 
-function handleStartGame(ws: WebSocket): void {
+function handleGameSettings(ws: WebSocket, settings: GameSettings): void {
+  const client = lobbyManager.getClientInfo(ws);
+  if (!client || !client.gameId) return;
+
+  const game = lobbyManager.getGame(client.gameId);
+  if (!game) return;
+
+  // Only host can change settings
+  if (!game.isHost(client.playerId)) return;
+
+  // Typed in by the host, so say what was wrong with it
+  if (settings && settings.seed !== null && !isSeed(settings.seed)) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Invalid seed' });
+    return;
+  }
+
+  if (!game.updateSettings(settings)) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Invalid game settings' });
+  }
+}
+
+function handleAddBot(ws: WebSocket, difficulty: BotDifficulty): void {
+  const client = lobbyManager.getClientInfo(ws);
+  if (!client || !client.gameId) return;
+
+  const game = lobbyManager.getGame(client.gameId);
+  if (!game) return;
+
+  // Only host can add bots
+  if (!game.isHost(client.playerId)) return;
+
+  if (!game.addBot(difficulty)) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Cannot add bot' });
+  }
+}
+
+function handleRemoveBot(ws: WebSocket, playerId: string): void {
+  const client = lobbyManager.getClientInfo(ws);
+  if (!client || !client.gameId) return;
+
+  const game = lobbyManager.getGame(client.gameId);
+  if (!game) return;
+
+  // Only host can remove bots
+  if (!game.isHost(client.playerId)) return;
+
+  game.removeBot(playerId);
+}
+
+function handleKickPlayer(ws: WebSocket, playerId: string, ban: boolean): void {
+  const client = lobbyManager.getClientInfo(ws);
+  if (!client || !client.gameId) return;
+
+  const game = lobbyManager.getGame(client.gameId);
+  if (!game) return;
+
+  // Only host can remove players
+  if (!game.isHost(client.playerId)) return;
+
+  if (!lobbyManager.kickPlayer(game, playerId, ban)) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Cannot remove player' });
+  }
+}
+
+function handleTransferHost(ws: WebSocket, playerId: string): void {
+  const client = lobbyManager.getClientInfo(ws);
+  if (!client || !client.gameId) return;
+
+  const game = lobbyManager.getGame(client.gameId);
+  if (!game) return;
+
+  // Only host can hand over the role
+  if (!game.isHost(client.playerId)) return;
+
+  if (!game.transferHost(playerId)) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Cannot transfer host' });
+  }
+}
+
+function handleStartGame(ws: WebSocket, settings?: GameSettings): void {
   const client = lobbyManager.getClientInfo(ws);
   if (!client || !client.gameId) return;
 
@@ -252,6 +704,12 @@ function handleStartGame(ws: WebSocket): void {
   // Only host can start
   if (!game.isHost(client.playerId)) return;
 
+  // Settings sent along with the start request override the current ones
+  if (settings && !game.updateSettings(settings)) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Invalid game settings' });
+    return;
+  }
+
   if (game.canStartGame()) {
     game.startGame();
   }
@@ -290,6 +748,108 @@ function handleTurnSubmit(ws: WebSocket, word: string): void {
   game.handleTurnSubmit(client.playerId, word);
 }
 
+function handleRequestSnapshot(ws: WebSocket): void {
+  const game = lobbyManager.getGameForClient(ws);
+  if (!game) return;
+
+  sendMessage(ws, game.getSnapshot());
+}
+
+function handleGetStats(ws: WebSocket, playerName: string): void {
+  if (typeof playerName !== 'string' || playerName.trim().length === 0) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Player name required' });
+    return;
+  }
+
+  sendMessage(ws, { type: MessageType.STATS, stats: getPlayerStats(statsStore, playerName) });
+}
+
+function handleGetLeaderboard(ws: WebSocket, category: LeaderboardCategory, window: LeaderboardWindow): void {
+  if (!isLeaderboardCategory(category) || !isLeaderboardWindow(window)) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Invalid leaderboard' });
+    return;
+  }
+
+  sendMessage(ws, {
+    type: MessageType.LEADERBOARD,
+    category,
+    window,
+    entries: getLeaderboard(statsStore, category, window),
+  });
+}
+
+function handleReportWord(ws: WebSocket, word: string): void {
+  const client = lobbyManager.getClientInfo(ws);
+  if (!client || !client.gameId) return;
+
+  const game = lobbyManager.getGame(client.gameId);
+  if (!game) return;
+
+  // Only words the player actually had rejected this game can be reported
+  const rejected = typeof word === 'string' ? game.takeRejectedWord(client.playerId, word) : null;
+  if (!rejected) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Cannot report word' });
+    return;
+  }
+
+  wordReports.report(rejected.dictionaryId, word.toUpperCase(), rejected.combo);
+}
+
+function handleChat(ws: WebSocket, text: string): void {
+  const client = lobbyManager.getClientInfo(ws);
+  if (!client || !client.gameId) return;
+
+  const game = lobbyManager.getGame(client.gameId);
+  if (!game) return;
+
+  // Control characters would only mess up the other players' screens
+  const cleaned = typeof text === 'string' ? text.replace(/[\u0000-\u001f\u007f]/g, '').trim() : '';
+  if (cleaned.length === 0 || cleaned.length > MAX_CHAT_LENGTH) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Invalid chat message' });
+    return;
+  }
+
+  if (!game.addChatMessage(client.playerId, cleaned)) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Cannot send chat message' });
+  }
+}
+
+function handleStartDaily(ws: WebSocket, playerName: string): void {
+  if (typeof playerName !== 'string' || playerName.trim().length === 0) {
+    sendMessage(ws, { type: MessageType.ERROR, message: 'Player name required' });
+    return;
+  }
+
+  const client = lobbyManager.getClientInfo(ws);
+  if (!client || client.gameId) return;
+
+  const game = lobbyManager.createDailyGame(ws, playerName.trim());
+  if (!game || !client.reconnectToken) {
+    sendMessage(ws, {
+      type: MessageType.JOIN_REJECT,
+      reason: 'Failed to start daily challenge',
+    });
+    return;
+  }
+
+  sendMessage(ws, {
+    type: MessageType.JOIN_ACCEPT,
+    playerId: client.playerId,
+    gameId: game.id,
+    reconnectToken: client.reconnectToken,
+    dictionaries: getDictionaryList(),
+  });
+
+  sendMessage(ws, {
+    type: MessageType.PLAYER_LIST,
+    players: game.getPlayersInfo(),
+    spectators: game.getSpectatorsInfo(),
+    hostId: game.hostId,
+  });
+
+  lobbyManager.startDailyGame(game);
+}
+
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('\nShutting down server...');
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Returns the parsed file, or null if it is missing or unreadable
+export function readJsonFile<T>(filePath: string): T | null {
+  if (!fs.existsSync(filePath)) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (e) {
+    console.error(`Failed to read ${filePath}`, e);
+    return null;
+  }
+}
+
+// Rewrites a whole JSON file in the background. Writes go to a temp file that is renamed
+// into place so a crash never leaves a half-written file, and never overlap.
+export class JsonFileWriter {
+  private writing = false;
+  private pending: unknown = undefined;
+
+  constructor(private filePath: string) {}
+
+  write(data: unknown): void {
+    if (this.writing) {
+      this.pending = data;
+      return;
+    }
+    this.writing = true;
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+      .then(() => fs.promises.writeFile(tempPath, JSON.stringify(data)))
+      .then(() => fs.promises.rename(tempPath, this.filePath))
+      .catch((err) => console.error(`Failed to write ${this.filePath}:`, err))
+      .finally(() => {
+        this.writing = false;
+        if (this.pending !== undefined) {
+          const next = this.pending;
+          this.pending = undefined;
+          this.write(next);
+        }
+      });
+  }
+}
@@ -0,0 +1,107 @@
+import { LeaderboardCategory, LeaderboardWindow, LeaderboardEntry } from '../../shared/protocol';
+import { StatsStore, PlayerGameResult, statsKey } from './stats-store';
+
+const LEADERBOARD_SIZE = 10;
+
+// Fewer correct words than this and an average answer time says little
+const FASTEST_ANSWER_MIN_WORDS = 10;
+
+export function isLeaderboardCategory(value: unknown): value is LeaderboardCategory {
+  return Object.values(LeaderboardCategory).includes(value as LeaderboardCategory);
+}
+
+export function isLeaderboardWindow(value: unknown): value is LeaderboardWindow {
+  return Object.values(LeaderboardWindow).includes(value as LeaderboardWindow);
+}
+
+// Start of the window in Unix ms, in server local time (weeks start on Monday)
+function getWindowStart(window: LeaderboardWindow, now: Date): number {
+  if (window === LeaderboardWindow.ALL_TIME) {
+    return 0;
+  }
+
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (window === LeaderboardWindow.WEEK) {
+    const daysSinceMonday = (start.getDay() + 6) % 7;
+    start.setDate(start.getDate() - daysSinceMonday);
+  }
+  return start.getTime();
+}
+
+interface PlayerTotals {
+  name: string;
+  wins: number;
+  wordsFound: number;
+  longestWord: string;
+  timedWords: number;   // Words from results that recorded answer time
+  answerTimeMs: number;
+}
+
+function sumByPlayer(results: PlayerGameResult[]): PlayerTotals[] {
+  const totals: Map<string, PlayerTotals> = new Map();
+
+  for (const result of results) {
+    const key = statsKey(result.name);
+    let entry = totals.get(key);
+    if (!entry) {
+      entry = { name: result.name, wins: 0, wordsFound: 0, longestWord: '', timedWords: 0, answerTimeMs: 0 };
+      totals.set(key, entry);
+    }
+
+    entry.name = result.name;
+    if (result.won) entry.wins++;
+    entry.wordsFound += result.wordsFound;
+    if (result.longestWord.length > entry.longestWord.length) {
+      entry.longestWord = result.longestWord;
+    }
+    if (result.answerTimeMs !== undefined) {
+      entry.timedWords += result.wordsFound;
+      entry.answerTimeMs += result.answerTimeMs;
+    }
+  }
+
+  return Array.from(totals.values());
+}
+
+export function getLeaderboard(
+  store: StatsStore,
+  category: LeaderboardCategory,
+  window: LeaderboardWindow,
+  now: Date = new Date()
+): LeaderboardEntry[] {
+  const since = getWindowStart(window, now);
+  const totals = sumByPlayer(store.getResults().filter(r => r.finishedAt >= since));
+
+  let entries: LeaderboardEntry[];
+  switch (category) {
+    case LeaderboardCategory.WINS:
+      entries = totals
+        .filter(t => t.wins > 0)
+        .map(t => ({ name: t.name, value: t.wins }))
+        .sort((a, b) => b.value - a.value);
+      break;
+
+    case LeaderboardCategory.WORDS:
+      entries = totals
+        .filter(t => t.wordsFound > 0)
+        .map(t => ({ name: t.name, value: t.wordsFound }))
+        .sort((a, b) => b.value - a.value);
+      break;
+
+    case LeaderboardCategory.LONGEST_WORD:
+      entries = totals
+        .filter(t => t.longestWord.length > 0)
+        .map(t => ({ name: t.name, value: t.longestWord.length, word: t.longestWord }))
+        .sort((a, b) => b.value - a.value);
+      break;
+
+    case LeaderboardCategory.FASTEST_ANSWER:
+      entries = totals
+        .filter(t => t.timedWords >= FASTEST_ANSWER_MIN_WORDS)
+        .map(t => ({ name: t.name, value: Math.round(t.answerTimeMs / t.timedWords) }))
+        .sort((a, b) => a.value - b.value);
+      break;
+  }
+
+  return entries.slice(0, LEADERBOARD_SIZE);
+}
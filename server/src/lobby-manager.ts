@@ -1,124 +1,422 @@
 import { WebSocket } from 'ws';
+import { randomInt } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import {
   MessageType,
-  GamePhase,
   GameInfo,
-  MAX_PLAYERS,
+  JoinRejectReason,
+  MAX_SPECTATORS,
+  JOIN_CODE_LENGTH,
 } from '../../shared/protocol';
 import { GameSession } from './game-session';
 import { sendMessage } from './messages';
+import { StatsStore } from './stats-store';
+import { DailyChallenge, DailyChallengeStore, dailyPlayerKey, getDailyChallenge } from './daily-challenge';
+import { ReplayStore } from './replays';
+import { logGameEvent } from './event-log';
+import { RateLimiter } from './rate-limiter';
+
+// How long a dropped player keeps their seat before being removed
+const RECONNECT_GRACE_MS = 30000;
+
+// No I or O, they are easy to mistake for 1 and 0
+const JOIN_CODE_LETTERS = 'ABCDEFGHJKLMNPRSTUVWXYZ';
+
+// Wrong join codes and passwords allowed per address before it has to wait, so neither can be guessed
+const JOIN_MAX_FAILURES = 5;
+const JOIN_FAILURE_WINDOW_MS = 60000;
 
 interface ClientInfo {
   ws: WebSocket;
+  address: string;
   playerId: string;
   gameId: string | null;
+  reconnectToken: string | null;
+}
+
+interface ReconnectSession {
+  playerId: string;
+  gameId: string;
+  address: string;  // For bans while the player is away
+  graceTimer: NodeJS.Timeout | null;
 }
 
 export class LobbyManager {
   private games: Map<string, GameSession> = new Map();
   private clients: Map<WebSocket, ClientInfo> = new Map();
-
-  registerClient(ws: WebSocket): string {
+  private sessions: Map<string, ReconnectSession> = new Map();
+  private joinCodes: Map<string, string> = new Map();  // Join code -> private game id
+  // Daily game id -> its challenge and player until started
+  private pendingDaily: Map<string, { challenge: DailyChallenge; playerKey: string }> = new Map();
+  private joinFailures = new RateLimiter(JOIN_MAX_FAILURES, JOIN_FAILURE_WINDOW_MS);
+
+  constructor(
+    private statsStore: StatsStore,
+    private dailyStore: DailyChallengeStore,
+    private replayStore: ReplayStore,
+  ) {}
+
+  registerClient(ws: WebSocket, address: string): string {
     const playerId = uuidv4();
     this.clients.set(ws, {
       ws,
+      address,
       playerId,
       gameId: null,
+      reconnectToken: null,
     });
     return playerId;
   }
 
-  unregisterClient(ws: WebSocket): void {
+  // intentional: the client closed the connection itself, so there is nothing to resume
+  unregisterClient(ws: WebSocket, intentional: boolean = false): void {
     const client = this.clients.get(ws);
     if (!client) return;
 
-    // Remove from game if in one
     if (client.gameId) {
       const game = this.games.get(client.gameId);
-      if (game) {
-        game.removePlayer(client.playerId);
-
-        // Clean up empty games
-        if (game.isEmpty()) {
-          game.cleanup();
-          this.games.delete(client.gameId);
-          console.log(`Game ${game.name} (${client.gameId}) removed - empty`);
-        }
+      const session = client.reconnectToken ? this.sessions.get(client.reconnectToken) : undefined;
+
+      if (game && session && !intentional) {
+        // Hold the seat for a while in case the player comes back
+        game.markDisconnected(client.playerId);
+        const token = client.reconnectToken!;
+        session.graceTimer = setTimeout(() => this.expireSession(token), RECONNECT_GRACE_MS);
+        console.log(`${client.playerId} dropped from game ${game.name}, waiting for resume`);
+      } else {
+        this.removeFromGame(client);
       }
     }
 
     this.clients.delete(ws);
   }
 
+  resumeSession(ws: WebSocket, token: string): { success: boolean; reason?: string } {
+    const client = this.clients.get(ws);
+    if (!client) {
+      return { success: false, reason: 'Not registered' };
+    }
+
+    if (client.gameId) {
+      return { success: false, reason: 'Already in a game' };
+    }
+
+    // The session of a banned player is gone, so look for the ban itself
+    for (const banning of this.games.values()) {
+      if (banning.bannedTokens.has(token)) {
+        return { success: false, reason: JoinRejectReason.BANNED };
+      }
+    }
+
+    const session = this.sessions.get(token);
+    if (!session) {
+      return { success: false, reason: 'Session expired' };
+    }
+
+    const game = this.games.get(session.gameId);
+    if (!game) {
+      this.sessions.delete(token);
+      return { success: false, reason: 'Game not found' };
+    }
+
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+      session.graceTimer = null;
+    }
+
+    // The old socket may not have noticed the drop yet - detach and close it
+    for (const other of this.clients.values()) {
+      if (other !== client && other.reconnectToken === token) {
+        other.gameId = null;
+        other.reconnectToken = null;
+        other.ws.close();
+      }
+    }
+
+    if (!game.reconnectPlayer(session.playerId, ws)) {
+      this.sessions.delete(token);
+      return { success: false, reason: 'Player not found' };
+    }
+
+    client.playerId = session.playerId;
+    client.gameId = session.gameId;
+    client.reconnectToken = token;
+    console.log(`${session.playerId} resumed game ${game.name} (${game.id})`);
+    return { success: true };
+  }
+
+  private expireSession(token: string): void {
+    const session = this.sessions.get(token);
+    if (!session) return;
+
+    this.sessions.delete(token);
+
+    const game = this.games.get(session.gameId);
+    if (game) {
+      game.removePlayer(session.playerId);
+      this.removeIfEmpty(game);
+    }
+  }
+
+  private createSession(client: ClientInfo, gameId: string): string {
+    const token = uuidv4();
+    this.sessions.set(token, { playerId: client.playerId, gameId, address: client.address, graceTimer: null });
+    return token;
+  }
+
+  private removeFromGame(client: ClientInfo): void {
+    if (!client.gameId) return;
+
+    const game = this.games.get(client.gameId);
+    if (game) {
+      game.removePlayer(client.playerId);
+      this.removeIfEmpty(game);
+    }
+
+    if (client.reconnectToken) {
+      this.sessions.delete(client.reconnectToken);
+      client.reconnectToken = null;
+    }
+    client.gameId = null;
+  }
+
+  // Clean up empty games
+  private removeIfEmpty(game: GameSession): void {
+    if (game.isEmpty()) {
+      game.cleanup();
+      this.games.delete(game.id);
+      if (game.joinCode) {
+        this.joinCodes.delete(game.joinCode);
+      }
+      this.pendingDaily.delete(game.id);
+      console.log(`Game ${game.name} (${game.id}) removed - empty`);
+    }
+  }
+
   getClientInfo(ws: WebSocket): ClientInfo | undefined {
     return this.clients.get(ws);
   }
 
-  createGame(ws: WebSocket, hostName: string, gameName: string): GameSession | null {
+  createGame(
+    ws: WebSocket,
+    hostName: string,
+    gameName: string,
+    isPrivate: boolean = false,
+    password: string | null = null,
+  ): GameSession | null {
     const client = this.clients.get(ws);
     if (!client) return null;
 
     // Create new game
     const gameId = uuidv4().slice(0, 8); // Short ID
-    const game = new GameSession(gameId, gameName, client.playerId);
+    const game = new GameSession(gameId, gameName, client.playerId, this.statsStore, this.replayStore);
 
     // Add host as first player
     const player = game.addPlayer(client.playerId, hostName, ws);
     if (!player) return null;
 
+    if (isPrivate) {
+      game.joinCode = this.createJoinCode();
+      this.joinCodes.set(game.joinCode, gameId);
+    } else if (password) {
+      // A private game's code already keeps strangers out
+      game.password = password;
+    }
+
     client.gameId = gameId;
+    client.reconnectToken = this.createSession(client, gameId);
     this.games.set(gameId, game);
 
-    console.log(`Game "${gameName}" (${gameId}) created by ${hostName}`);
+    console.log(`Game "${gameName}" (${gameId}) created by ${hostName}${isPrivate ? ' (private)' : ''}`);
+    logGameEvent(gameId, 'GAME_CREATED', {
+      name: gameName,
+      host: hostName,
+      private: isPrivate,
+      password: game.password !== null,
+    });
     return game;
   }
 
-  joinGame(ws: WebSocket, gameId: string, playerName: string): { success: boolean; reason?: string } {
+  private createJoinCode(): string {
+    let code: string;
+    do {
+      code = '';
+      for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+        code += JOIN_CODE_LETTERS[randomInt(JOIN_CODE_LETTERS.length)];
+      }
+    } while (this.joinCodes.has(code));
+    return code;
+  }
+
+  // A one-player game playing today's challenge, not listed and closed to others
+  createDailyGame(ws: WebSocket, playerName: string): GameSession | null {
+    const client = this.clients.get(ws);
+    if (!client) return null;
+
+    const gameId = uuidv4().slice(0, 8);
+    const game = new GameSession(gameId, 'Päeva väljakutse', client.playerId, this.statsStore, this.replayStore);
+
+    const player = game.addPlayer(client.playerId, playerName, ws);
+    if (!player) return null;
+
+    client.gameId = gameId;
+    client.reconnectToken = this.createSession(client, gameId);
+    this.games.set(gameId, game);
+
+    // Fixed here, so a game created just before midnight still plays the day it was started on
+    const challenge = getDailyChallenge();
+    this.pendingDaily.set(gameId, { challenge, playerKey: dailyPlayerKey(client.address) });
+    console.log(`${playerName} started the daily challenge for ${challenge.date} (${gameId})`);
+    logGameEvent(gameId, 'GAME_CREATED', { name: game.name, host: playerName, daily: challenge.date });
+    return game;
+  }
+
+  // Starts a game created by createDailyGame once the client knows it is in it
+  startDailyGame(game: GameSession): boolean {
+    const pending = this.pendingDaily.get(game.id);
+    if (!pending) return false;
+    this.pendingDaily.delete(game.id);
+    return game.startDaily(pending.challenge, this.dailyStore, pending.playerKey);
+  }
+
+  joinGame(
+    ws: WebSocket,
+    gameId: string,
+    playerName: string,
+    password?: string,
+    previousToken?: string,
+  ): { success: boolean; reason?: string } {
     const client = this.clients.get(ws);
     if (!client) {
       return { success: false, reason: 'Not registered' };
     }
 
+    // Private games can only be found by their code
     const game = this.games.get(gameId);
-    if (!game) {
+    if (!game || game.isDaily || game.joinCode) {
       return { success: false, reason: 'Game not found' };
     }
 
-    if (game.phase !== GamePhase.LOBBY && game.phase !== GamePhase.GAME_OVER) {
-      return { success: false, reason: 'Game already started' };
+    if (this.isBanned(game, client, previousToken)) {
+      return { success: false, reason: JoinRejectReason.BANNED };
+    }
+
+    if (game.password !== null) {
+      // Asking for the password isn't a guess, so it doesn't count as a failure
+      if (!password) {
+        return { success: false, reason: JoinRejectReason.PASSWORD_REQUIRED };
+      }
+      // Checked before the password, or guessing on past the limit would still let the right one in
+      if (this.joinFailures.isLimited(client.address)) {
+        return { success: false, reason: JoinRejectReason.TOO_MANY_ATTEMPTS };
+      }
+    }
+
+    if (game.password !== null && password !== game.password) {
+      this.joinFailures.record(client.address);
+      console.log(`Wrong password for game ${game.name} (${game.id}) from ${client.address}`);
+      return { success: false, reason: JoinRejectReason.WRONG_PASSWORD };
     }
 
-    if (game.playerCount >= MAX_PLAYERS) {
+    return this.addToGame(client, game, playerName);
+  }
+
+  // Returns the game id on success, for the reply to the client
+  joinGameByCode(
+    ws: WebSocket,
+    code: string,
+    playerName: string,
+    previousToken?: string,
+  ): { success: boolean; gameId?: string; reason?: string } {
+    const client = this.clients.get(ws);
+    if (!client) {
+      return { success: false, reason: 'Not registered' };
+    }
+
+    if (this.joinFailures.isLimited(client.address)) {
+      return { success: false, reason: JoinRejectReason.TOO_MANY_ATTEMPTS };
+    }
+
+    const gameId = this.joinCodes.get(code.trim().toUpperCase());
+    const game = gameId ? this.games.get(gameId) : undefined;
+    if (!game) {
+      this.joinFailures.record(client.address);
+      console.log(`Wrong join code from ${client.address}`);
+      return { success: false, reason: JoinRejectReason.WRONG_CODE };
+    }
+
+    if (this.isBanned(game, client, previousToken)) {
+      return { success: false, reason: JoinRejectReason.BANNED };
+    }
+
+    const result = this.addToGame(client, game, playerName);
+    return { ...result, gameId: game.id };
+  }
+
+  private isBanned(game: GameSession, client: ClientInfo, previousToken?: string): boolean {
+    return game.bannedAddresses.has(client.address) ||
+      (previousToken !== undefined && game.bannedTokens.has(previousToken));
+  }
+
+  private addToGame(client: ClientInfo, game: GameSession, playerName: string): { success: boolean; reason?: string } {
+    // Games in progress or with no free seats can still be joined as a spectator
+    if (game.playerCount >= game.maxPlayers && game.spectatorCount >= MAX_SPECTATORS) {
       return { success: false, reason: 'Game is full' };
     }
 
-    const player = game.addPlayer(client.playerId, playerName, ws);
+    const player = game.addPlayer(client.playerId, playerName, client.ws);
     if (!player) {
       return { success: false, reason: 'Failed to join' };
     }
 
-    client.gameId = gameId;
-    console.log(`${playerName} joined game ${game.name} (${gameId})`);
+    client.gameId = game.id;
+    client.reconnectToken = this.createSession(client, game.id);
+    console.log(`${playerName} joined game ${game.name} (${game.id})`);
     return { success: true };
   }
 
-  leaveGame(ws: WebSocket): void {
-    const client = this.clients.get(ws);
-    if (!client || !client.gameId) return;
+  // Takes another player out of the game, whether they are connected or holding their seat after a drop
+  kickPlayer(game: GameSession, playerId: string, ban: boolean): boolean {
+    if (!game.isHumanPlayer(playerId) || game.isHost(playerId)) return false;
 
-    const game = this.games.get(client.gameId);
-    if (game) {
-      game.removePlayer(client.playerId);
+    const target = Array.from(this.clients.values()).find(c => c.gameId === game.id && c.playerId === playerId);
+    const sessionEntry = Array.from(this.sessions.entries()).find(([, s]) => s.gameId === game.id && s.playerId === playerId);
 
-      if (game.isEmpty()) {
-        game.cleanup();
-        this.games.delete(client.gameId);
-        console.log(`Game ${game.name} (${client.gameId}) removed - empty`);
+    if (ban) {
+      const address = target?.address ?? sessionEntry?.[1].address;
+      if (address) {
+        game.bannedAddresses.add(address);
+      }
+      const token = target?.reconnectToken ?? sessionEntry?.[0];
+      if (token) {
+        game.bannedTokens.add(token);
       }
     }
 
-    client.gameId = null;
+    if (target) {
+      sendMessage(target.ws, { type: MessageType.KICKED, banned: ban });
+      this.removeFromGame(target);
+    } else {
+      if (sessionEntry) {
+        const [token, session] = sessionEntry;
+        if (session.graceTimer) {
+          clearTimeout(session.graceTimer);
+        }
+        this.sessions.delete(token);
+      }
+      game.removePlayer(playerId);
+      this.removeIfEmpty(game);
+    }
+
+    console.log(`${playerId} ${ban ? 'banned' : 'kicked'} from game ${game.name} (${game.id})`);
+    return true;
+  }
+
+  leaveGame(ws: WebSocket): void {
+    const client = this.clients.get(ws);
+    if (!client || !client.gameId) return;
+
+    this.removeFromGame(client);
   }
 
   getGame(gameId: string): GameSession | undefined {
@@ -135,9 +433,9 @@ export class LobbyManager {
     const gameList: GameInfo[] = [];
 
     for (const game of this.games.values()) {
-      // Only show games in lobby or game over phase that can be joined
-      if (game.phase !== GamePhase.LOBBY && game.phase !== GamePhase.GAME_OVER) continue;
+      if (game.isDaily || game.joinCode) continue;
 
+      // Games in progress are listed too - joining them means spectating
       const players = game.getPlayersInfo();
       const host = players.find(p => p.isHost);
 
@@ -146,8 +444,10 @@ export class LobbyManager {
         name: game.name,
         hostName: host?.name || 'Unknown',
         playerCount: game.playerCount,
-        maxPlayers: MAX_PLAYERS,
+        maxPlayers: game.maxPlayers,
         phase: game.phase,
+        dictionary: game.dictionaryInfo,
+        hasPassword: game.password !== null,
       });
     }
 
@@ -38,12 +38,12 @@ export function broadcastMessage(
 }
 
 export function broadcastToGame(
-  players: Map<string, { ws: WebSocket }>,
+  players: Map<string, { ws: WebSocket | null }>,
   message: ServerMessage
 ): void {
   const data = JSON.stringify(message);
   for (const player of players.values()) {
-    if (player.ws.readyState === WebSocket.OPEN) {
+    if (player.ws && player.ws.readyState === WebSocket.OPEN) {
       player.ws.send(data);
     }
   }
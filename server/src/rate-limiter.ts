@@ -0,0 +1,25 @@
+// Counts events per key (e.g. a client's address) over a sliding time window
+export class RateLimiter {
+  private events: Map<string, number[]> = new Map();  // Oldest first
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // True once the key has had its limit of events within the window
+  isLimited(key: string, now: number = Date.now()): boolean {
+    const events = this.events.get(key) || [];
+    return events.filter(t => now - t < this.windowMs).length >= this.limit;
+  }
+
+  record(key: string, now: number = Date.now()): void {
+    // Forget keys that have been quiet for a whole window
+    for (const [other, events] of this.events) {
+      if (now - events[events.length - 1] >= this.windowMs) {
+        this.events.delete(other);
+      }
+    }
+
+    const events = (this.events.get(key) || []).filter(t => now - t < this.windowMs);
+    events.push(now);
+    this.events.set(key, events);
+  }
+}
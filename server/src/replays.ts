@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ServerMessage, ReplayEntry, ReplayFile, ReplayInfo } from '../../shared/protocol';
+import { readJsonFile, JsonFileWriter } from './json-file';
+
+const REPLAY_FILE_VERSION = 1;
+
+// Oldest replays are deleted beyond this
+const MAX_REPLAYS = 100;
+
+// Replay ids come from the server, so anything else can't name a replay file
+export function isReplayId(value: string): boolean {
+  return /^[0-9a-f]{8}$/.test(value);
+}
+
+// Collects everything a game broadcasts, from its start until it is over
+export class ReplayRecorder {
+  readonly id = uuidv4().slice(0, 8);
+  private startedAt = Date.now();
+  private entries: ReplayEntry[] = [];
+
+  constructor(private gameName: string, private players: string[]) {}
+
+  record(message: ServerMessage): void {
+    this.entries.push({ t: Date.now() - this.startedAt, message });
+  }
+
+  finish(): ReplayFile {
+    return {
+      version: REPLAY_FILE_VERSION,
+      id: this.id,
+      gameName: this.gameName,
+      players: this.players,
+      startedAt: this.startedAt,
+      durationMs: Date.now() - this.startedAt,
+      entries: this.entries,
+    };
+  }
+}
+
+function toInfo(replay: ReplayFile): ReplayInfo {
+  const { id, gameName, players, startedAt, durationMs } = replay;
+  return { id, gameName, players, startedAt, durationMs };
+}
+
+// One JSON file per replay in a directory, with the list of them kept in memory
+export class ReplayStore {
+  private replays: ReplayInfo[] = [];  // Newest first
+
+  constructor(private dir: string) {
+    if (!fs.existsSync(dir)) return;
+
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.endsWith('.json')) continue;
+      const replay = readJsonFile<ReplayFile>(path.join(dir, file));
+      if (replay && isReplayId(replay.id) && Array.isArray(replay.entries)) {
+        this.replays.push(toInfo(replay));
+      }
+    }
+    this.replays.sort((a, b) => b.startedAt - a.startedAt);
+    console.log(`Found ${this.replays.length} replays in ${dir}`);
+  }
+
+  save(replay: ReplayFile): void {
+    new JsonFileWriter(this.getPath(replay.id)).write(replay);
+    this.replays.unshift(toInfo(replay));
+
+    for (const old of this.replays.splice(MAX_REPLAYS)) {
+      fs.promises.unlink(this.getPath(old.id))
+        .catch((err) => console.error(`Failed to delete replay ${old.id}:`, err));
+    }
+  }
+
+  list(): ReplayInfo[] {
+    return this.replays;
+  }
+
+  // The replay file as stored, or null if there is no such replay
+  async read(id: string): Promise<string | null> {
+    if (!isReplayId(id) || !this.replays.some(r => r.id === id)) {
+      return null;
+    }
+
+    try {
+      return await fs.promises.readFile(this.getPath(id), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  private getPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
@@ -0,0 +1,87 @@
+import { PlayerStats } from '../../shared/protocol';
+import { readJsonFile, JsonFileWriter } from './json-file';
+
+// One player's result from a finished game
+export interface PlayerGameResult {
+  gameId: string;
+  finishedAt: number;     // Unix ms
+  name: string;
+  won: boolean;
+  wordsFound: number;
+  timeouts: number;
+  longestWord: string;
+  answerTimeMs?: number;  // Total time to correct answers, missing in older results
+}
+
+// Anything that can keep game results across restarts (JSON file, embedded database, ...)
+export interface StatsStore {
+  recordGame(results: PlayerGameResult[]): void;
+  getResults(): PlayerGameResult[];
+}
+
+interface StatsFile {
+  version: number;
+  results: PlayerGameResult[];
+}
+
+const STATS_FILE_VERSION = 1;
+
+// Players are identified by name, ignoring case and surrounding whitespace
+export function statsKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function getPlayerStats(store: StatsStore, name: string): PlayerStats {
+  const stats: PlayerStats = {
+    name: name.trim(),
+    gamesPlayed: 0,
+    wins: 0,
+    wordsFound: 0,
+    timeouts: 0,
+    longestWord: '',
+  };
+
+  const key = statsKey(name);
+  for (const result of store.getResults()) {
+    if (statsKey(result.name) !== key) continue;
+
+    stats.name = result.name;
+    stats.gamesPlayed++;
+    if (result.won) stats.wins++;
+    stats.wordsFound += result.wordsFound;
+    stats.timeouts += result.timeouts;
+    if (result.longestWord.length > stats.longestWord.length) {
+      stats.longestWord = result.longestWord;
+    }
+  }
+
+  return stats;
+}
+
+// Keeps everything in memory and rewrites the whole file after each game
+export class JsonFileStatsStore implements StatsStore {
+  private results: PlayerGameResult[] = [];
+  private writer: JsonFileWriter;
+
+  constructor(filePath: string) {
+    this.writer = new JsonFileWriter(filePath);
+
+    const data = readJsonFile<StatsFile>(filePath);
+    if (data && Array.isArray(data.results)) {
+      this.results = data.results;
+      console.log(`Loaded ${this.results.length} game results from ${filePath}`);
+    }
+  }
+
+  recordGame(results: PlayerGameResult[]): void {
+    if (results.length === 0) return;
+
+    this.results.push(...results);
+    const data: StatsFile = { version: STATS_FILE_VERSION, results: this.results };
+    this.writer.write(data);
+  }
+
+  getResults(): PlayerGameResult[] {
+    return this.results;
+  }
+}
@@ -0,0 +1,95 @@
+// Derives a combo list with difficulty metadata from a word list.
+//
+//   npm run generate-combos -- [--words sonad4.txt] [--out kombinatsioonid-gen.txt]
+//     [--min-words 100] [--min-length 2] [--max-length 4]
+//
+// File names are relative to server/data. Point a dictionary pack in game-logic.ts at the
+// output file to use it - the server reads the metadata columns.
+
+import * as fs from 'fs';
+import { getDataPath } from '../game-logic';
+import { ComboEntry, countComboWords, formatComboList, scoreDifficulty } from '../combos';
+
+interface Options {
+  words: string;
+  out: string;
+  minWords: number;
+  minLength: number;
+  maxLength: number;
+}
+
+const DEFAULT_OPTIONS: Options = {
+  words: 'sonad4.txt',
+  out: 'kombinatsioonid-gen.txt',
+  minWords: 100,
+  minLength: 2,
+  maxLength: 4,
+};
+
+// Hyphenated compounds are in the word list, but combos are letters only
+const LETTERS_ONLY = /^\p{L}+$/u;
+
+function parseArgs(args: string[]): Options {
+  const options = { ...DEFAULT_OPTIONS };
+
+  for (let i = 0; i < args.length; i += 2) {
+    const value = args[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${args[i]}`);
+    }
+
+    switch (args[i]) {
+      case '--words': options.words = value; break;
+      case '--out': options.out = value; break;
+      case '--min-words': options.minWords = parseInt(value, 10); break;
+      case '--min-length': options.minLength = parseInt(value, 10); break;
+      case '--max-length': options.maxLength = parseInt(value, 10); break;
+      default: throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+
+  if (!(options.minWords >= 1)) throw new Error('--min-words must be at least 1');
+  if (!(options.minLength >= 2 && options.maxLength <= 4 && options.minLength <= options.maxLength)) {
+    throw new Error('Combo lengths must be within 2-4');
+  }
+  return options;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+
+  const content = fs.readFileSync(getDataPath(options.words), 'utf-8');
+  const words = new Set(content.split('\n').map(w => w.trim().toUpperCase()).filter(w => w.length > 0));
+  console.log(`Read ${words.size} words from ${options.words}`);
+
+  const counts = countComboWords(words, options.minLength, options.maxLength);
+  const kept = Array.from(counts.entries())
+    .filter(([combo, count]) => count >= options.minWords && LETTERS_ONLY.test(combo));
+  if (kept.length === 0) {
+    throw new Error(`No combo is in ${options.minWords} or more words`);
+  }
+
+  const maxCount = Math.max(...kept.map(([, count]) => count));
+  const entries: ComboEntry[] = kept
+    .map(([combo, wordCount]) => ({
+      combo,
+      wordCount,
+      difficulty: scoreDifficulty(wordCount, options.minWords, maxCount),
+    }))
+    .sort((a, b) => a.difficulty - b.difficulty || a.combo.localeCompare(b.combo));
+
+  const header = [
+    `Generated from ${options.words} on ${new Date().toISOString().slice(0, 10)}`,
+    `Combo length ${options.minLength}-${options.maxLength}, at least ${options.minWords} words each`,
+    'Columns: combo, words containing it, difficulty (0 easiest - 100 hardest)',
+  ];
+  fs.writeFileSync(getDataPath(options.out), formatComboList(entries, header));
+  console.log(`Wrote ${entries.length} combos to ${options.out}`);
+}
+
+try {
+  main();
+} catch (e) {
+  console.error((e as Error).message);
+  process.exit(1);
+}
@@ -2,7 +2,10 @@ import { WebSocket } from 'ws';
 import {
   PlayerState,
   GamePhase,
+  GameSettings,
+  BotDifficulty,
   DEFAULT_LIVES,
+  DEFAULT_GAME_SETTINGS,
 } from '../../shared/protocol';
 
 export interface Player {
@@ -11,9 +14,15 @@ export interface Player {
   state: PlayerState;
   lives: number;
   score: number;
+  timeouts: number;      // Per game, for persistent stats
+  longestWord: string;
+  answerTimeMs: number;  // Total time taken by correct answers
   isHost: boolean;
   currentInput: string;
-  ws: WebSocket;
+  usedLetters: Set<string>;  // Alphabet bonus progress
+  stateBeforeDisconnect: PlayerState | null;  // Restored when a dropped player resumes
+  botDifficulty: BotDifficulty | null;  // Set for computer-controlled players
+  ws: WebSocket | null;  // Bots have no connection
 }
 
 export interface GameState {
@@ -27,11 +36,12 @@ export interface GameState {
   currentCombo: string;
   currentTurnPlayerId: string;
   turnTimer: number;
-  turnDuration: number;
+  turnDuration: number;          // Current turn length, shrinks when timer acceleration is on
+  turnsThisRound: number;        // Turns taken since the last full round of alive players
   usedWords: Set<string>;
 
   // Game rules
-  comboChangePerRound: boolean;  // If true, combo only changes after everyone has had a turn
+  settings: GameSettings;
   roundStartPlayerId: string;    // Track who started the current round
 
   // Turn timer handle
@@ -44,17 +54,24 @@ export interface GameState {
 export function createPlayer(
   id: string,
   name: string,
-  ws: WebSocket,
-  isHost: boolean = false
+  ws: WebSocket | null,
+  isHost: boolean = false,
+  lives: number = DEFAULT_LIVES
 ): Player {
   return {
     id,
     name,
     state: PlayerState.CONNECTED,
-    lives: DEFAULT_LIVES,
+    lives,
     score: 0,
+    timeouts: 0,
+    longestWord: '',
+    answerTimeMs: 0,
     isHost,
     currentInput: '',
+    usedLetters: new Set(),
+    stateBeforeDisconnect: null,
+    botDifficulty: null,
     ws,
   };
 }
@@ -74,9 +91,10 @@ export function createGameState(
     currentTurnPlayerId: '',
     turnTimer: 0,
     turnDuration: 10,
+    turnsThisRound: 0,
     usedWords: new Set(),
     turnTimerHandle: null,
-    comboChangePerRound: false,
+    settings: { ...DEFAULT_GAME_SETTINGS },
     roundStartPlayerId: '',
     failedCombos: new Set(),
   };
@@ -0,0 +1,88 @@
+import { DEFAULT_DICTIONARY } from '../../shared/protocol';
+import { readJsonFile, JsonFileWriter } from './json-file';
+
+// A word players think should be in the dictionary
+export interface WordReport {
+  dictionary: string;     // Dictionary id
+  word: string;
+  combos: string[];       // Combos it was played against
+  count: number;          // How many times it was reported
+  firstReportedAt: number;
+  lastReportedAt: number;
+}
+
+interface WordReportsFile {
+  version: number;
+  reports: WordReport[];
+}
+
+const WORD_REPORTS_FILE_VERSION = 2;
+
+function reportKey(dictionary: string, word: string): string {
+  return `${dictionary}:${word}`;
+}
+
+// Pending reports waiting for a moderator, persisted as JSON
+export class WordReportStore {
+  private reports: Map<string, WordReport> = new Map();
+  private writer: JsonFileWriter;
+
+  constructor(filePath: string) {
+    this.writer = new JsonFileWriter(filePath);
+
+    const data = readJsonFile<WordReportsFile>(filePath);
+    if (data && Array.isArray(data.reports)) {
+      for (const report of data.reports) {
+        // Version 1 files predate multiple dictionaries
+        report.dictionary = report.dictionary || DEFAULT_DICTIONARY;
+        this.reports.set(reportKey(report.dictionary, report.word), report);
+      }
+      console.log(`Loaded ${this.reports.size} word reports from ${filePath}`);
+    }
+  }
+
+  report(dictionary: string, word: string, combo: string): void {
+    const now = Date.now();
+    const existing = this.reports.get(reportKey(dictionary, word));
+    if (existing) {
+      existing.count++;
+      existing.lastReportedAt = now;
+      if (!existing.combos.includes(combo)) {
+        existing.combos.push(combo);
+      }
+    } else {
+      this.reports.set(reportKey(dictionary, word), {
+        dictionary,
+        word,
+        combos: [combo],
+        count: 1,
+        firstReportedAt: now,
+        lastReportedAt: now,
+      });
+    }
+    this.save();
+  }
+
+  // Most reported first
+  getPending(): WordReport[] {
+    return Array.from(this.reports.values()).sort((a, b) => b.count - a.count);
+  }
+
+  isPending(dictionary: string, word: string): boolean {
+    return this.reports.has(reportKey(dictionary, word));
+  }
+
+  // Drops a report once a moderator has dealt with it, false if there was none
+  resolve(dictionary: string, word: string): boolean {
+    if (!this.reports.delete(reportKey(dictionary, word))) {
+      return false;
+    }
+    this.save();
+    return true;
+  }
+
+  private save(): void {
+    const data: WordReportsFile = { version: WORD_REPORTS_FILE_VERSION, reports: this.getPending() };
+    this.writer.write(data);
+  }
+}
@@ -2,8 +2,29 @@
 
 export const MAX_PLAYERS = 8;
 export const MIN_PLAYERS = 2;
+export const MAX_SPECTATORS = 8;
+export const JOIN_CODE_LENGTH = 4;  // Letters in a private game's join code
+export const MAX_PASSWORD_LENGTH = 20;
+export const MAX_CHAT_LENGTH = 120;
 export const DEFAULT_LIVES = 3;
 export const DEFAULT_TURN_DURATION = 10.0;
+export const DEFAULT_MIN_WORD_LENGTH = 1;  // Any length, hosts can ask for longer words
+export const DEFAULT_MIN_TURN_DURATION = 4;
+export const TIMER_ACCELERATION_STEP = 0.5;  // Seconds removed from the turn timer per step
+export const DEFAULT_DICTIONARY = 'et';
+
+// Alphabet bonus: using every one of these letters in accepted words grants a life
+export const ALPHABET_BONUS_LETTERS = 'ABDEFGHIJKLMNOPRSŠZŽTUVÕÄÖÜ';
+export const ALPHABET_BONUS_MAX_LIVES = 5;
+
+// Allowed ranges for host-configurable game settings
+export const SETTINGS_LIMITS = {
+  lives: { min: 1, max: 5 },
+  turnDuration: { min: 3, max: 30 },
+  minTurnDuration: { min: 2, max: 30 },
+  maxPlayers: { min: MIN_PLAYERS, max: MAX_PLAYERS },
+  minWordLength: { min: 1, max: 10 },
+};
 
 export enum MessageType {
   // Lobby
@@ -13,13 +34,24 @@ export enum MessageType {
   PLAYER_LIST = 'PLAYER_LIST',
   PLAYER_READY = 'PLAYER_READY',
   PLAYER_LEFT = 'PLAYER_LEFT',
+  RESUME_SESSION = 'RESUME_SESSION',
 
   // Game management
   CREATE_GAME = 'CREATE_GAME',
   LIST_GAMES = 'LIST_GAMES',
   GAMES_LIST = 'GAMES_LIST',
+  JOIN_BY_CODE = 'JOIN_BY_CODE',
+
+  // Host moderation
+  KICK_PLAYER = 'KICK_PLAYER',
+  BAN_PLAYER = 'BAN_PLAYER',
+  TRANSFER_HOST = 'TRANSFER_HOST',
+  KICKED = 'KICKED',
 
   // Game start
+  GAME_SETTINGS = 'GAME_SETTINGS',
+  ADD_BOT = 'ADD_BOT',
+  REMOVE_BOT = 'REMOVE_BOT',
   START_GAME_REQUEST = 'START_GAME_REQUEST',
   GAME_START = 'GAME_START',
   NEW_COMBO = 'NEW_COMBO',
@@ -35,6 +67,24 @@ export enum MessageType {
   PLAYER_UPDATE = 'PLAYER_UPDATE',
   PLAYER_ELIMINATED = 'PLAYER_ELIMINATED',
   GAME_OVER = 'GAME_OVER',
+  GAME_SNAPSHOT = 'GAME_SNAPSHOT',
+  REQUEST_SNAPSHOT = 'REQUEST_SNAPSHOT',
+
+  // Stats
+  GET_STATS = 'GET_STATS',
+  STATS = 'STATS',
+  GET_LEADERBOARD = 'GET_LEADERBOARD',
+  LEADERBOARD = 'LEADERBOARD',
+
+  // Dictionary
+  REPORT_WORD = 'REPORT_WORD',
+
+  // Daily challenge
+  START_DAILY = 'START_DAILY',
+  DAILY_RESULT = 'DAILY_RESULT',
+
+  // Chat
+  CHAT = 'CHAT',
 
   // Utility
   PING = 'PING',
@@ -48,6 +98,7 @@ export enum PlayerState {
   ALIVE = 'ALIVE',
   ELIMINATED = 'ELIMINATED',
   DISCONNECTED = 'DISCONNECTED',
+  SPECTATOR = 'SPECTATOR',  // Watching only, becomes a player once the game is over
 }
 
 export enum TurnResult {
@@ -57,6 +108,39 @@ export enum TurnResult {
   TIMEOUT = 'TIMEOUT',
 }
 
+export enum TimerAcceleration {
+  NONE = 'NONE',
+  PER_ROUND = 'PER_ROUND',  // Timer shrinks after every player has had a turn
+  PER_WORD = 'PER_WORD',    // Timer shrinks after every correct word
+}
+
+// How combo difficulty develops over a game
+export enum DifficultyCurve {
+  EASY = 'EASY',        // Easy combos only
+  RAMP = 'RAMP',        // Easy at first, harder every few combos
+  STEEP = 'STEEP',      // Like RAMP, but reaches the hardest combos twice as fast
+  RANDOM = 'RANDOM',    // Any combo at any time
+}
+
+export enum BotDifficulty {
+  EASY = 'EASY',
+  MEDIUM = 'MEDIUM',
+  HARD = 'HARD',
+}
+
+export enum LeaderboardCategory {
+  WINS = 'WINS',
+  WORDS = 'WORDS',
+  LONGEST_WORD = 'LONGEST_WORD',
+  FASTEST_ANSWER = 'FASTEST_ANSWER',  // Average time to a correct answer
+}
+
+export enum LeaderboardWindow {
+  TODAY = 'TODAY',
+  WEEK = 'WEEK',
+  ALL_TIME = 'ALL_TIME',
+}
+
 export enum GamePhase {
   LOBBY = 'LOBBY',
   PLAYING = 'PLAYING',
@@ -71,6 +155,64 @@ export interface PlayerInfo {
   score: number;
   isHost: boolean;
   currentInput?: string;
+  usedLetters?: string[];
+  botDifficulty?: BotDifficulty;  // Set for computer-controlled players
+}
+
+export interface GameSettings {
+  lives: number;
+  turnDuration: number;
+  comboChangePerRound: boolean;  // If true, combo only changes on timeout after everyone has had a turn
+  maxPlayers: number;
+  minWordLength: number;
+  timerAcceleration: TimerAcceleration;
+  minTurnDuration: number;       // Floor for the accelerating timer
+  alphabetBonus: boolean;        // Extra life for using every letter of ALPHABET_BONUS_LETTERS
+  dictionary: string;            // Id of one of the dictionaries the server has loaded
+  difficultyCurve: DifficultyCurve;
+  seed: number | null;           // Fixed seed replays the same combo sequence, null picks a new one per game
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  lives: DEFAULT_LIVES,
+  turnDuration: DEFAULT_TURN_DURATION,
+  comboChangePerRound: true,
+  maxPlayers: MAX_PLAYERS,
+  minWordLength: DEFAULT_MIN_WORD_LENGTH,
+  timerAcceleration: TimerAcceleration.NONE,
+  minTurnDuration: DEFAULT_MIN_TURN_DURATION,
+  alphabetBonus: false,
+  dictionary: DEFAULT_DICTIONARY,
+  difficultyCurve: DifficultyCurve.RAMP,
+  seed: null,
+};
+
+// Totals over every recorded game of a player
+export interface PlayerStats {
+  name: string;
+  gamesPlayed: number;
+  wins: number;
+  wordsFound: number;
+  timeouts: number;
+  longestWord: string;
+}
+
+export interface ChatEntry {
+  playerId: string;
+  playerName: string;
+  text: string;
+  time: number;  // Unix ms, when the server received it
+}
+
+export interface LeaderboardEntry {
+  name: string;
+  value: number;   // Wins, words, word length or average answer time in ms
+  word?: string;   // The word itself for LONGEST_WORD
+}
+
+export interface DictionaryInfo {
+  id: string;
+  name: string;
 }
 
 export interface GameInfo {
@@ -80,6 +222,27 @@ export interface GameInfo {
   playerCount: number;
   maxPlayers: number;
   phase: GamePhase;
+  dictionary: DictionaryInfo;
+  hasPassword: boolean;  // JOIN_REQUEST needs the password
+}
+
+// Recorded games, served over HTTP: GET /api/replays lists them, GET /api/replays/<id> returns a ReplayFile
+export interface ReplayEntry {
+  t: number;               // ms since recording started
+  message: ServerMessage;  // As broadcast to everyone in the game
+}
+
+export interface ReplayInfo {
+  id: string;
+  gameName: string;
+  players: string[];
+  startedAt: number;       // Unix ms
+  durationMs: number;
+}
+
+export interface ReplayFile extends ReplayInfo {
+  version: number;
+  entries: ReplayEntry[];
 }
 
 // Client -> Server messages
@@ -87,12 +250,30 @@ export interface JoinRequestMessage {
   type: MessageType.JOIN_REQUEST;
   gameId: string;
   playerName: string;
+  password?: string;  // For games with hasPassword
+  previousToken?: string;  // Reconnect token of the last seat this client held, so a ban outlasts an address change
+}
+
+// Sent after a dropped connection to take the seat back within the grace period
+export interface ResumeSessionMessage {
+  type: MessageType.RESUME_SESSION;
+  reconnectToken: string;
 }
 
 export interface CreateGameMessage {
   type: MessageType.CREATE_GAME;
   hostName: string;
   gameName: string;
+  isPrivate?: boolean;  // Not listed, joined with the code from JOIN_ACCEPT instead
+  password?: string;    // Listed, but joining needs the password. Ignored for private games.
+}
+
+// Joins a private game by the code its players were given
+export interface JoinByCodeMessage {
+  type: MessageType.JOIN_BY_CODE;
+  code: string;
+  playerName: string;
+  previousToken?: string;
 }
 
 export interface ListGamesMessage {
@@ -114,12 +295,78 @@ export interface TurnSubmitMessage {
   word: string;
 }
 
+export interface RequestSnapshotMessage {
+  type: MessageType.REQUEST_SNAPSHOT;
+}
+
+export interface GetStatsMessage {
+  type: MessageType.GET_STATS;
+  playerName: string;
+}
+
+export interface GetLeaderboardMessage {
+  type: MessageType.GET_LEADERBOARD;
+  category: LeaderboardCategory;
+  window: LeaderboardWindow;
+}
+
+// Flags a word the dictionary rejected this game as a missing word
+export interface ReportWordMessage {
+  type: MessageType.REPORT_WORD;
+  word: string;
+}
+
+// Starts today's solo challenge, the player gets a private game of their own
+export interface StartDailyMessage {
+  type: MessageType.START_DAILY;
+  playerName: string;
+}
+
+export interface ChatMessage {
+  type: MessageType.CHAT;
+  text: string;
+}
+
 export interface PingMessage {
   type: MessageType.PING;
 }
 
 export interface StartGameRequestMessage {
   type: MessageType.START_GAME_REQUEST;
+  settings?: GameSettings;
+}
+
+// Sent by the host to change settings, broadcast back to everyone once validated
+export interface GameSettingsMessage {
+  type: MessageType.GAME_SETTINGS;
+  settings: GameSettings;
+}
+
+// Host-only lobby actions for computer-controlled players
+export interface AddBotMessage {
+  type: MessageType.ADD_BOT;
+  difficulty: BotDifficulty;
+}
+
+export interface RemoveBotMessage {
+  type: MessageType.REMOVE_BOT;
+  playerId: string;
+}
+
+// Host-only actions on other players. A banned player can't rejoin from the same address while the game lasts.
+export interface KickPlayerMessage {
+  type: MessageType.KICK_PLAYER;
+  playerId: string;
+}
+
+export interface BanPlayerMessage {
+  type: MessageType.BAN_PLAYER;
+  playerId: string;
+}
+
+export interface TransferHostMessage {
+  type: MessageType.TRANSFER_HOST;
+  playerId: string;
 }
 
 export interface ReturnToLobbyMessage {
@@ -131,6 +378,18 @@ export interface JoinAcceptMessage {
   type: MessageType.JOIN_ACCEPT;
   playerId: string;
   gameId: string;
+  reconnectToken: string;
+  dictionaries: DictionaryInfo[];  // Dictionaries the host can pick from
+  joinCode?: string;               // Set for private games, for inviting others
+}
+
+// JOIN_REJECT reasons the client shows its own text for
+export enum JoinRejectReason {
+  WRONG_CODE = 'Wrong join code',
+  PASSWORD_REQUIRED = 'Password required',
+  WRONG_PASSWORD = 'Wrong password',
+  BANNED = 'Banned from this game',
+  TOO_MANY_ATTEMPTS = 'Too many attempts, try again later',
 }
 
 export interface JoinRejectMessage {
@@ -138,6 +397,12 @@ export interface JoinRejectMessage {
   reason: string;
 }
 
+// Sent to a player the host removed, who is no longer in the game
+export interface KickedMessage {
+  type: MessageType.KICKED;
+  banned: boolean;
+}
+
 export interface GamesListMessage {
   type: MessageType.GAMES_LIST;
   games: GameInfo[];
@@ -146,6 +411,7 @@ export interface GamesListMessage {
 export interface PlayerListMessage {
   type: MessageType.PLAYER_LIST;
   players: PlayerInfo[];
+  spectators: PlayerInfo[];
   hostId: string;
 }
 
@@ -159,6 +425,7 @@ export interface GameStartMessage {
   firstPlayerId: string;
   turnDuration: number;
   combo: string;
+  seed: number;
 }
 
 export interface NewComboMessage {
@@ -194,6 +461,7 @@ export interface PlayerUpdateMessage {
   lives: number;
   score: number;
   state: PlayerState;
+  usedLetters: string[];
 }
 
 export interface PlayerEliminatedMessage {
@@ -206,10 +474,68 @@ export interface FailedComboInfo {
   exampleWords: string[];
 }
 
+// One finished turn, for the post-game summary
+export interface TurnHistoryEntry {
+  combo: string;
+  playerName: string;
+  word: string | null;       // Accepted word, null if the turn timed out
+  timeMs: number;            // From the start of the turn to the accepted word or the timeout
+  wrongAttempts: string[];   // Rejected and already used words, in the order they were tried
+}
+
 export interface GameOverMessage {
   type: MessageType.GAME_OVER;
   winnerId: string | null;
   failedCombos?: FailedComboInfo[];
+  history?: TurnHistoryEntry[];  // Every turn of the game, in order
+  replayId?: string;  // The game's recording, saved once it is over
+}
+
+// Full game state, sent on join, on resume and on request so clients can resync
+export interface GameSnapshotMessage {
+  type: MessageType.GAME_SNAPSHOT;
+  gameName: string;
+  seed?: number;  // Of the current or last game
+  phase: GamePhase;
+  players: PlayerInfo[];
+  spectators: PlayerInfo[];
+  hostId: string;
+  settings: GameSettings;
+  combo: string;
+  currentTurnPlayerId: string;
+  turnDuration: number;
+  remainingTime: number;
+  usedWords: string[];
+  chat?: ChatEntry[];  // Latest messages of the game's chat, oldest first
+  // Only once the game is over, for the summary screens
+  failedCombos?: FailedComboInfo[];
+  history?: TurnHistoryEntry[];
+}
+
+export interface StatsMessage {
+  type: MessageType.STATS;
+  stats: PlayerStats;
+}
+
+export interface LeaderboardMessage {
+  type: MessageType.LEADERBOARD;
+  category: LeaderboardCategory;
+  window: LeaderboardWindow;
+  entries: LeaderboardEntry[];
+}
+
+// Sent after GAME_OVER of a daily challenge
+export interface DailyResultMessage {
+  type: MessageType.DAILY_RESULT;
+  date: string;                // YYYY-MM-DD
+  score: number;
+  rank: number | null;         // Null if the player had already played today and this one didn't count
+  entries: LeaderboardEntry[]; // The day's top players by words found
+}
+
+export interface ChatBroadcastMessage {
+  type: MessageType.CHAT;
+  entry: ChatEntry;
 }
 
 export interface PongMessage {
@@ -223,13 +549,27 @@ export interface ErrorMessage {
 
 export type ClientMessage =
   | JoinRequestMessage
+  | ResumeSessionMessage
   | CreateGameMessage
+  | JoinByCodeMessage
   | ListGamesMessage
   | PlayerReadyMessage
+  | GameSettingsMessage
+  | AddBotMessage
+  | RemoveBotMessage
+  | KickPlayerMessage
+  | BanPlayerMessage
+  | TransferHostMessage
   | StartGameRequestMessage
   | ReturnToLobbyMessage
   | TurnInputMessage
   | TurnSubmitMessage
+  | RequestSnapshotMessage
+  | GetStatsMessage
+  | GetLeaderboardMessage
+  | ReportWordMessage
+  | StartDailyMessage
+  | ChatMessage
   | PingMessage;
 
 export type ServerMessage =
@@ -238,6 +578,7 @@ export type ServerMessage =
   | GamesListMessage
   | PlayerListMessage
   | PlayerLeftMessage
+  | GameSettingsMessage
   | GameStartMessage
   | NewComboMessage
   | TurnStartMessage
@@ -246,5 +587,11 @@ export type ServerMessage =
   | PlayerUpdateMessage
   | PlayerEliminatedMessage
   | GameOverMessage
+  | GameSnapshotMessage
+  | StatsMessage
+  | LeaderboardMessage
+  | DailyResultMessage
+  | KickedMessage
+  | ChatBroadcastMessage
   | PongMessage
   | ErrorMessage;
@@ -0,0 +1,82 @@
+// Word and combo list files and the word check, shared by the server and offline practice
+//
+// Word lists have one word per line. Hand-written combo lists have one combo per line,
+// generated ones add tab-separated metadata and "#" comment lines:
+//   # Generated from sonad4.txt ...
+//   KUS	1234	42
+// where the columns are the combo, how many words contain it and its difficulty (0-100).
+
+import { TurnResult } from './protocol';
+
+export interface ComboStats {
+  wordCount: number;
+  difficulty: number;  // 0 is the easiest combo in the list, 100 the hardest
+}
+
+export interface ComboList {
+  combos: string[];
+  stats: Map<string, ComboStats>;  // Only combos that came with metadata
+}
+
+export function parseWordList(content: string): string[] {
+  return content.split('\n').filter(w => w.trim().length > 0).map(w => w.trim().toUpperCase());
+}
+
+export function parseComboList(content: string): ComboList {
+  const combos: string[] = [];
+  const stats: Map<string, ComboStats> = new Map();
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.length === 0 || trimmed.startsWith('#')) continue;
+
+    const [combo, wordCount, difficulty] = trimmed.split('\t');
+    const upperCombo = combo.trim().toUpperCase();
+    combos.push(upperCombo);
+
+    if (wordCount !== undefined && difficulty !== undefined) {
+      const parsedCount = parseInt(wordCount, 10);
+      const parsedDifficulty = parseInt(difficulty, 10);
+      if (!isNaN(parsedCount) && !isNaN(parsedDifficulty)) {
+        stats.set(upperCombo, { wordCount: parsedCount, difficulty: parsedDifficulty });
+      }
+    }
+  }
+
+  return { combos, stats };
+}
+
+export function validateWord(
+  words: Set<string>,
+  word: string,
+  currentCombo: string,
+  usedWords: Set<string>,
+  minWordLength: number = 0
+): TurnResult {
+  if (!word || word.length === 0) {
+    return TurnResult.WRONG;
+  }
+
+  if (word.length < minWordLength) {
+    return TurnResult.WRONG;
+  }
+
+  const upperWord = word.toUpperCase();
+
+  // Check if word was already used
+  if (usedWords.has(upperWord)) {
+    return TurnResult.ALREADY_USED;
+  }
+
+  // Check if word contains the combo
+  if (!upperWord.includes(currentCombo.toUpperCase())) {
+    return TurnResult.WRONG;
+  }
+
+  // Check if word exists in dictionary
+  if (!words.has(upperWord)) {
+    return TurnResult.WRONG;
+  }
+
+  return TurnResult.CORRECT;
+}